@@ -23,7 +23,7 @@ const logger = createLogger({
       labels: { service: 'my-angular-app' }
     }),
     new DatadogTransport({
-      apiKey: 'your-datadog-api-key',
+      clientToken: 'pub-your-client-token',
       service: 'my-angular-app',
       env: 'production'
     })
@@ -20,7 +20,7 @@ const logger = createLogger({
       labels: { service: 'my-react-app' }
     }),
     new DatadogTransport({
-      apiKey: 'your-datadog-api-key',
+      clientToken: 'pub-your-client-token',
       service: 'my-react-app',
       env: 'production'
     }),
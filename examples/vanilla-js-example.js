@@ -23,7 +23,7 @@ const logger = createLogger({
       }
     }),
     new DatadogTransport({
-      apiKey: 'your-datadog-api-key',
+      clientToken: 'pub-your-client-token',
       service: 'vanilla-js-app',
       env: 'development'
     }),
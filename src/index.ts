@@ -3,25 +3,94 @@ export { HermesTrace, createLogger } from './logger';
 export { 
   LogLevel,
   type LogEntry,
+  type TimerOutcome,
+  type MetricType,
+  type MetricTags,
+  type MetricPoint,
+  type MetricsConfig,
+  type MetricsExporter,
+  type OtlpMetricsExporterConfig,
   type Transport,
   type TransportConfig,
   type HermesTraceConfig,
   type LokiConfig,
+  type LokiLabelField,
+  type LokiEncoding,
   type DatadogConfig,
   type SentryConfig,
+  type SentryMode,
+  type SentryHub,
+  type OtlpConfig,
+  type HttpTransportConfig,
+  type HeaderProvider,
+  type BodySerializer,
+  type ElasticsearchConfig,
+  type SplunkHecConfig,
   type ErrorBoundaryConfig,
   type FrameworkIntegration,
+  type NetworkIntegrationConfig,
+  type GlobalErrorIntegrationConfig,
+  type ConsoleIntegrationConfig,
+  type ConsoleMethod,
+  type PerformanceIntegrationConfig,
+  type WebVitalName,
+  type WebVitalRating,
+  type Breadcrumb,
+  type BreadcrumbType,
+  type BreadcrumbInput,
+  type BreadcrumbsConfig,
   type MaskingConfig,
+  type ErrorContextConfig,
+  type SamplingConfig,
+  type RateLimitConfig,
+  type DedupConfig,
+  type LogProcessor,
+  type ProcessorOptions,
   type MaskingRule,
+  type OverflowPolicy,
+  type UnloadDelivery,
+  type TransportRequest,
+  type OfflineQueueConfig,
+  type QueueStorage,
+  type RetryConfig,
+  type CircuitBreakerConfig,
 } from './types';
 
 export { DataMasker } from './utils/masking';
+export {
+  OfflineQueue,
+  MemoryQueueStorage,
+  LocalStorageQueueStorage,
+  IndexedDBQueueStorage,
+} from './utils/offline-queue';
+export { TransportError, RetryPolicy, CircuitBreaker } from './utils/retry';
+export { Sampler, RateLimiter } from './utils/sampling';
+export { BreadcrumbRecorder, elementSelector } from './utils/breadcrumbs';
+export { Timer } from './utils/timer';
+export { MetricsRegistry, Counter, Gauge, Histogram } from './utils/metrics';
+export { toOtlpMetrics } from './utils/otlp';
+export {
+  Span,
+  TraceContext,
+  parseTraceparent,
+  formatTraceparent,
+} from './utils/trace-context';
 
 export { BaseTransport } from './transports/base';
 export { ConsoleTransport } from './transports/console';
 export { LokiTransport } from './transports/loki';
 export { DatadogTransport } from './transports/datadog';
 export { SentryTransport } from './transports/sentry';
+export { OtlpTransport } from './transports/otlp';
+export { HttpTransport } from './transports/http';
+export { ElasticsearchTransport } from './transports/elasticsearch';
+export { SplunkHecTransport } from './transports/splunk';
+export { OtlpMetricsExporter } from './transports/otlp-metrics';
+
+export { NetworkIntegration } from './integrations/network';
+export { GlobalErrorIntegration } from './integrations/global-errors';
+export { ConsoleIntegration } from './integrations/console';
+export { PerformanceIntegration } from './integrations/performance';
 
 // Framework integrations are exported from separate entry points
 // Use hermes-trace/react, hermes-trace/vue, hermes-trace/angular
\ No newline at end of file
@@ -1,5 +1,7 @@
 import { HermesTrace } from '../logger';
 import { FrameworkIntegration } from '../types';
+import { maskHeaders } from './network';
+import { now, elapsedSince } from '../utils/timer';
 
 export class AngularIntegration implements FrameworkIntegration {
   private logger?: HermesTrace;
@@ -71,17 +73,17 @@ export class HermesHttpInterceptor {
   constructor(private logger: HermesTrace) {}
 
   intercept(req: any, next: any): any {
-    const startTime = Date.now();
+    const startTime = now();
     
     this.logger.debug(`HTTP ${req.method} ${req.url} started`, {
       method: req.method,
       url: req.url,
-      headers: req.headers,
+      headers: maskHeaders(req.headers, this.logger),
     }, ['http-request']);
 
     return next.handle(req).pipe(
       (response: any) => {
-        const duration = Date.now() - startTime;
+        const duration = elapsedSince(startTime);
         
         if (response.type === 4) {
           this.logger.info(`HTTP ${req.method} ${req.url} completed`, {
@@ -95,7 +97,7 @@ export class HermesHttpInterceptor {
         return response;
       },
       (error: any) => {
-        const duration = Date.now() - startTime;
+        const duration = elapsedSince(startTime);
         
         this.logger.error(`HTTP ${req.method} ${req.url} failed`, error, {
           method: req.method,
@@ -0,0 +1,87 @@
+import { HermesTrace } from '../logger';
+import { ConsoleIntegrationConfig, ConsoleMethod, FrameworkIntegration, LogLevel } from '../types';
+import { CONSOLE_LEVELS, formatConsoleArgs } from '../utils/console-format';
+import { isInternalRequest } from '../utils/internal-request';
+
+const matches = (value: string, patterns: (string | RegExp)[]): boolean =>
+  patterns.some(pattern => (typeof pattern === 'string' ? value.includes(pattern) : pattern.test(value)));
+
+export class ConsoleIntegration implements FrameworkIntegration {
+  private logger?: HermesTrace;
+  private readonly config: Required<ConsoleIntegrationConfig>;
+  private originals: Partial<Record<ConsoleMethod, (...args: any[]) => void>> = {};
+  private forwarding = false;
+
+  constructor(config: ConsoleIntegrationConfig = {}) {
+    this.config = {
+      methods: ['warn', 'error'],
+      ignoreMessages: [],
+      tags: [],
+      ...config,
+    };
+  }
+
+  install(logger: HermesTrace): void {
+    if (typeof console === 'undefined') return;
+
+    this.uninstall();
+    this.logger = logger;
+
+    this.config.methods.forEach(method => {
+      const original = console[method];
+      if (typeof original !== 'function') return;
+
+      const integration = this;
+      this.originals[method] = original;
+      console[method] = function (...args: any[]) {
+        integration.capture(method, args);
+        return original.apply(console, args);
+      };
+    });
+  }
+
+  uninstall(): void {
+    (Object.keys(this.originals) as ConsoleMethod[]).forEach(method => {
+      console[method] = this.originals[method]!;
+    });
+    this.originals = {};
+    this.logger = undefined;
+  }
+
+  private capture(method: ConsoleMethod, args: any[]): void {
+    // ConsoleTransport output and HermesTrace's own console.error calls would
+    // otherwise be fed straight back into the logger
+    if (!this.logger || this.forwarding || isInternalRequest()) return;
+
+    const { message, error, objects } = formatConsoleArgs(args);
+    if (matches(message, this.config.ignoreMessages)) return;
+
+    const level = CONSOLE_LEVELS[method];
+    const context = {
+      consoleMethod: method,
+      ...(objects.length > 0 && { arguments: objects }),
+    };
+    const tags = [...this.config.tags, 'console'];
+
+    this.forwarding = true;
+    try {
+      switch (level) {
+        case LogLevel.DEBUG:
+          this.logger.debug(message, context, tags);
+          break;
+        case LogLevel.INFO:
+          this.logger.info(message, context, tags);
+          break;
+        case LogLevel.WARN:
+          this.logger.warn(message, context, tags);
+          break;
+        default:
+          this.logger.error(message, error, context, tags);
+      }
+    } catch (loggingError) {
+      // Never let a logging failure break the caller's console call
+    } finally {
+      this.forwarding = false;
+    }
+  }
+}
@@ -0,0 +1,172 @@
+import { HermesTrace } from '../logger';
+import { FrameworkIntegration, GlobalErrorIntegrationConfig } from '../types';
+
+const matches = (value: string | undefined, patterns: (string | RegExp)[]): boolean =>
+  !!value && patterns.some(pattern => (typeof pattern === 'string' ? value.includes(pattern) : pattern.test(value)));
+
+// Elements whose failed loads fire a non-bubbling error event; window only sees them in the capture phase
+const resourceUrl = (target: EventTarget | null): string | undefined => {
+  if (target instanceof HTMLImageElement || target instanceof HTMLMediaElement) return target.currentSrc || target.src;
+  if (target instanceof HTMLScriptElement || target instanceof HTMLSourceElement) return target.src;
+  if (target instanceof HTMLLinkElement) return target.href;
+  return undefined;
+};
+
+const toError = (reason: any): Error | undefined => {
+  if (reason instanceof Error) return reason;
+  if (reason === undefined || reason === null) return undefined;
+
+  const error = new Error(typeof reason === 'string' ? reason : JSON.stringify(reason));
+  error.name = 'UnhandledRejection';
+  return error;
+};
+
+export class GlobalErrorIntegration implements FrameworkIntegration {
+  private logger?: HermesTrace;
+  private readonly config: Required<GlobalErrorIntegrationConfig>;
+  private recent = new Map<string, number>();
+  private seenErrors = new WeakSet<object>();
+  private listeners: Array<{ target: EventTarget; type: string; listener: (event: Event) => void; capture: boolean }> = [];
+
+  constructor(config: GlobalErrorIntegrationConfig = {}) {
+    this.config = {
+      captureErrors: true,
+      captureRejections: true,
+      captureResourceErrors: true,
+      captureCspViolations: true,
+      ignoreErrors: [],
+      denyUrls: [],
+      allowUrls: [],
+      ignoreCrossOriginErrors: true,
+      dedupWindow: 1000,
+      ...config,
+    };
+  }
+
+  install(logger: HermesTrace): void {
+    if (typeof window === 'undefined') return;
+
+    this.uninstall();
+    this.logger = logger;
+
+    if (this.config.captureErrors || this.config.captureResourceErrors) {
+      // Capture phase is required to see resource load failures, which don't bubble
+      this.listen(window, 'error', event => this.handleError(event), true);
+    }
+
+    if (this.config.captureRejections) {
+      this.listen(window, 'unhandledrejection', event => this.handleRejection(event as PromiseRejectionEvent));
+    }
+
+    if (this.config.captureCspViolations && typeof document !== 'undefined') {
+      this.listen(document, 'securitypolicyviolation', event => this.handleCspViolation(event as SecurityPolicyViolationEvent));
+    }
+  }
+
+  uninstall(): void {
+    this.listeners.forEach(({ target, type, listener, capture }) => {
+      target.removeEventListener(type, listener, capture);
+    });
+    this.listeners = [];
+    this.recent.clear();
+    this.logger = undefined;
+  }
+
+  private listen(target: EventTarget, type: string, listener: (event: Event) => void, capture = false): void {
+    target.addEventListener(type, listener, capture);
+    this.listeners.push({ target, type, listener, capture });
+  }
+
+  private handleError(event: Event): void {
+    const url = resourceUrl(event.target);
+
+    if (url) {
+      if (this.config.captureResourceErrors) {
+        this.handleResourceError(event.target as HTMLElement, url);
+      }
+      return;
+    }
+
+    if (!this.config.captureErrors) return;
+
+    const errorEvent = event as ErrorEvent;
+    const message = errorEvent.message || errorEvent.error?.message || 'Unknown error';
+
+    if (this.config.ignoreCrossOriginErrors && message === 'Script error.' && !errorEvent.filename) return;
+    if (!this.isAllowedUrl(errorEvent.filename)) return;
+    if (matches(message, this.config.ignoreErrors)) return;
+    if (this.isDuplicate(errorEvent.error, `error|${message}|${errorEvent.filename}|${errorEvent.lineno}|${errorEvent.colno}`)) return;
+
+    this.logger?.error('Global error caught', errorEvent.error || new Error(message), {
+      filename: errorEvent.filename,
+      lineno: errorEvent.lineno,
+      colno: errorEvent.colno,
+    }, ['global-error']);
+  }
+
+  private handleResourceError(target: HTMLElement, url: string): void {
+    const tagName = target.tagName.toLowerCase();
+
+    if (!this.isAllowedUrl(url)) return;
+    if (this.isDuplicate(undefined, `resource|${tagName}|${url}`)) return;
+
+    this.logger?.error(`Failed to load ${tagName} resource`, undefined, {
+      tagName,
+      url,
+      ...(target.outerHTML && { element: target.outerHTML.slice(0, 200) }),
+    }, ['resource-error']);
+  }
+
+  private handleRejection(event: PromiseRejectionEvent): void {
+    const error = toError(event.reason);
+    const message = error?.message || 'Unhandled promise rejection';
+
+    if (matches(message, this.config.ignoreErrors)) return;
+    if (this.isDuplicate(error, `rejection|${error?.name}|${message}`)) return;
+
+    this.logger?.error('Unhandled promise rejection', error, {
+      ...(!(event.reason instanceof Error) && event.reason !== undefined && { reason: event.reason }),
+    }, ['unhandled-rejection']);
+  }
+
+  private handleCspViolation(event: SecurityPolicyViolationEvent): void {
+    if (!this.isAllowedUrl(event.sourceFile) || matches(event.blockedURI, this.config.denyUrls)) return;
+    if (this.isDuplicate(undefined, `csp|${event.violatedDirective}|${event.blockedURI}`)) return;
+
+    this.logger?.warn('Content Security Policy violation', {
+      blockedURI: event.blockedURI,
+      violatedDirective: event.violatedDirective,
+      effectiveDirective: event.effectiveDirective,
+      originalPolicy: event.originalPolicy,
+      disposition: event.disposition,
+      sourceFile: event.sourceFile,
+      lineNumber: event.lineNumber,
+      columnNumber: event.columnNumber,
+    }, ['csp-violation']);
+  }
+
+  private isAllowedUrl(url?: string): boolean {
+    if (!url) return true;
+    if (matches(url, this.config.denyUrls)) return false;
+    return this.config.allowUrls.length === 0 || matches(url, this.config.allowUrls);
+  }
+
+  private isDuplicate(error: Error | undefined, fingerprint: string): boolean {
+    if (error && typeof error === 'object') {
+      if (this.seenErrors.has(error)) return true;
+      this.seenErrors.add(error);
+    }
+
+    const now = Date.now();
+    const lastSeen = this.recent.get(fingerprint);
+    this.recent.set(fingerprint, now);
+
+    if (this.recent.size > 100) {
+      this.recent.forEach((seenAt, key) => {
+        if (now - seenAt > this.config.dedupWindow) this.recent.delete(key);
+      });
+    }
+
+    return lastSeen !== undefined && now - lastSeen < this.config.dedupWindow;
+  }
+}
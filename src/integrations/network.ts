@@ -0,0 +1,320 @@
+import { HermesTrace } from '../logger';
+import { FrameworkIntegration, LogLevel, NetworkIntegrationConfig } from '../types';
+import { DataMasker } from '../utils/masking';
+import { Span } from '../utils/trace-context';
+import { isInternalRequest } from '../utils/internal-request';
+import { now, elapsedSince } from '../utils/timer';
+
+const DEFAULT_SENSITIVE_HEADERS = [
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'set-cookie',
+  'x-api-key',
+  'x-auth-token',
+  'x-csrf-token',
+  'dd-api-key',
+];
+
+const DEFAULT_SENSITIVE_QUERY_PARAMS = ['token', 'access_token', 'api_key', 'apiKey', 'key', 'signature', 'code'];
+
+type FetchInput = Parameters<typeof fetch>[0];
+type FetchInit = Parameters<typeof fetch>[1];
+
+interface NetworkRequest {
+  category: 'fetch' | 'xhr';
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  requestSize?: number;
+}
+
+interface XhrState extends NetworkRequest {
+  span?: Span;
+  startTime: number;
+}
+
+const bodySize = (body: any): number | undefined => {
+  if (typeof body === 'string') return body.length;
+  if (body && typeof body.size === 'number') return body.size;
+  if (body && typeof body.byteLength === 'number') return body.byteLength;
+  return undefined;
+};
+
+const matchesUrl = (url: string, patterns: (string | RegExp)[]): boolean =>
+  patterns.some(pattern => (typeof pattern === 'string' ? url.includes(pattern) : pattern.test(url)));
+
+const headersToRecord = (headers: any): Record<string, string> => {
+  const record: Record<string, string> = {};
+  if (!headers) return record;
+
+  // Covers both fetch Headers and Angular HttpHeaders
+  if (typeof headers.keys === 'function' && typeof headers.get === 'function') {
+    Array.from(headers.keys() as Iterable<string>).forEach(key => {
+      record[key.toLowerCase()] = headers.get(key);
+    });
+  } else if (Array.isArray(headers)) {
+    headers.forEach(([key, value]: [string, string]) => {
+      record[key.toLowerCase()] = value;
+    });
+  } else {
+    Object.keys(headers).forEach(key => {
+      record[key.toLowerCase()] = String(headers[key]);
+    });
+  }
+  return record;
+};
+
+const createNetworkMasker = (logger: HermesTrace, extraFields: string[]): DataMasker => {
+  const maskingConfig = logger.getMaskingConfig();
+  return new DataMasker({
+    ...maskingConfig,
+    enabled: true,
+    sensitiveFields: [...(maskingConfig.sensitiveFields || []), ...extraFields],
+  });
+};
+
+export const maskHeaders = (headers: any, logger: HermesTrace): Record<string, string> =>
+  createNetworkMasker(logger, DEFAULT_SENSITIVE_HEADERS).maskData(headersToRecord(headers));
+
+export class NetworkIntegration implements FrameworkIntegration {
+  private logger?: HermesTrace;
+  private readonly config: Required<NetworkIntegrationConfig>;
+  private masker?: DataMasker;
+  private originalFetch?: typeof fetch;
+  private originalXhrOpen?: XMLHttpRequest['open'];
+  private originalXhrSend?: XMLHttpRequest['send'];
+  private originalXhrSetRequestHeader?: XMLHttpRequest['setRequestHeader'];
+  private xhrState = new WeakMap<XMLHttpRequest, XhrState>();
+
+  constructor(config: NetworkIntegrationConfig = {}) {
+    this.config = {
+      captureFetch: true,
+      captureXhr: true,
+      captureHeaders: false,
+      ignoreUrls: [],
+      tracePropagationTargets: [],
+      sensitiveHeaders: DEFAULT_SENSITIVE_HEADERS,
+      sensitiveQueryParams: DEFAULT_SENSITIVE_QUERY_PARAMS,
+      ...config,
+    };
+  }
+
+  install(logger: HermesTrace): void {
+    if (typeof window === 'undefined') return;
+
+    this.logger = logger;
+    this.masker = createNetworkMasker(logger, [
+      ...this.config.sensitiveHeaders,
+      ...this.config.sensitiveQueryParams,
+    ]);
+
+    if (this.config.captureFetch && typeof window.fetch === 'function') {
+      this.patchFetch();
+    }
+
+    if (this.config.captureXhr && typeof XMLHttpRequest !== 'undefined') {
+      this.patchXhr();
+    }
+  }
+
+  uninstall(): void {
+    if (this.originalFetch) {
+      window.fetch = this.originalFetch;
+      this.originalFetch = undefined;
+    }
+
+    if (this.originalXhrOpen) {
+      XMLHttpRequest.prototype.open = this.originalXhrOpen;
+      XMLHttpRequest.prototype.send = this.originalXhrSend!;
+      XMLHttpRequest.prototype.setRequestHeader = this.originalXhrSetRequestHeader!;
+      this.originalXhrOpen = undefined;
+    }
+
+    this.logger = undefined;
+  }
+
+  public maskUrl(url: string): string {
+    try {
+      const parsed = new URL(url, this.baseUrl());
+      const params: Record<string, string> = {};
+      parsed.searchParams.forEach((value, key) => {
+        params[key] = value;
+      });
+
+      const masked = this.masker!.maskData(params);
+      Object.keys(masked).forEach(key => parsed.searchParams.set(key, masked[key]));
+      return parsed.href;
+    } catch (error) {
+      return url;
+    }
+  }
+
+  public maskHeaders(headers: any): Record<string, string> {
+    return this.masker!.maskData(headersToRecord(headers));
+  }
+
+  private patchFetch(): void {
+    const originalFetch = window.fetch;
+    this.originalFetch = originalFetch;
+
+    window.fetch = (input: FetchInput, init?: FetchInit): Promise<Response> => {
+      if (isInternalRequest() || !this.logger) {
+        return originalFetch.call(window, input, init);
+      }
+
+      const request = typeof Request !== 'undefined' && input instanceof Request ? input : undefined;
+      const url = request ? request.url : String(input);
+      if (this.shouldIgnore(url)) {
+        return originalFetch.call(window, input, init);
+      }
+
+      const method = (init?.method || request?.method || 'GET').toUpperCase();
+      const headers = headersToRecord(init?.headers || request?.headers);
+      const span = this.logger.startSpan(`HTTP ${method}`);
+
+      if (this.shouldPropagate(url)) {
+        const propagated = new Headers(init?.headers || request?.headers);
+        propagated.set('traceparent', span.toTraceparent());
+        init = { ...init, headers: propagated };
+      }
+
+      const info: NetworkRequest = { category: 'fetch', method, url, headers, requestSize: bodySize(init?.body) };
+      const startTime = now();
+
+      return originalFetch.call(window, input, init).then(
+        response => {
+          const length = response.headers?.get('content-length');
+          this.record(info, span, startTime, response.status, length ? Number(length) : undefined);
+          return response;
+        },
+        error => {
+          this.record(info, span, startTime, 0, undefined, error);
+          throw error;
+        }
+      );
+    };
+  }
+
+  private patchXhr(): void {
+    const proto = XMLHttpRequest.prototype;
+    const originalOpen = proto.open;
+    const originalSend = proto.send;
+    const originalSetRequestHeader = proto.setRequestHeader;
+    const integration = this;
+
+    this.originalXhrOpen = originalOpen;
+    this.originalXhrSend = originalSend;
+    this.originalXhrSetRequestHeader = originalSetRequestHeader;
+
+    proto.open = function (this: XMLHttpRequest, method: string, url: string | URL, ...rest: unknown[]) {
+      if (!isInternalRequest()) {
+        integration.xhrState.set(this, {
+          category: 'xhr',
+          method: method.toUpperCase(),
+          url: String(url),
+          headers: {},
+          startTime: 0,
+        });
+      }
+      return originalOpen.apply(this, [method, url, ...rest] as Parameters<XMLHttpRequest['open']>);
+    } as XMLHttpRequest['open'];
+
+    proto.setRequestHeader = function (this: XMLHttpRequest, name: string, value: string) {
+      const state = integration.xhrState.get(this);
+      if (state) {
+        state.headers[name.toLowerCase()] = value;
+      }
+      return originalSetRequestHeader.call(this, name, value);
+    };
+
+    proto.send = function (this: XMLHttpRequest, body?: Parameters<XMLHttpRequest['send']>[0]) {
+      const state = integration.xhrState.get(this);
+
+      if (state && integration.logger && !integration.shouldIgnore(state.url)) {
+        const xhr = this;
+        state.span = integration.logger.startSpan(`HTTP ${state.method}`);
+        state.requestSize = bodySize(body);
+
+        if (integration.shouldPropagate(state.url)) {
+          originalSetRequestHeader.call(xhr, 'traceparent', state.span.toTraceparent());
+        }
+
+        state.startTime = now();
+        xhr.addEventListener('loadend', () => {
+          const length = xhr.getResponseHeader('content-length');
+          const responseSize = length ? Number(length) : bodySize(xhr.responseType === '' ? xhr.responseText : xhr.response);
+          const error = xhr.status === 0 ? new Error('Network request failed') : undefined;
+          integration.record(state, state.span!, state.startTime, xhr.status, responseSize, error);
+          integration.xhrState.delete(xhr);
+        });
+      }
+
+      return originalSend.call(this, body);
+    };
+  }
+
+  private record(
+    info: NetworkRequest,
+    span: Span,
+    startTime: number,
+    status: number,
+    responseSize?: number,
+    error?: Error
+  ): void {
+    const logger = this.logger;
+    if (!logger) return;
+
+    const url = this.maskUrl(info.url);
+    const context: Record<string, any> = {
+      method: info.method,
+      url,
+      status,
+      durationMs: elapsedSince(startTime),
+      ...(info.requestSize !== undefined && { requestSize: info.requestSize }),
+      ...(responseSize !== undefined && { responseSize }),
+      ...(this.config.captureHeaders && { headers: this.maskHeaders(info.headers) }),
+    };
+
+    logger.addBreadcrumb({
+      type: 'http',
+      category: info.category,
+      level: error || status >= 500 ? LogLevel.ERROR : status >= 400 ? LogLevel.WARN : LogLevel.INFO,
+      message: `${info.method} ${url} ${status}`,
+      data: { method: info.method, url, status, durationMs: context.durationMs },
+    });
+
+    logger.withSpan(span, () => {
+      if (error) {
+        logger.error(`HTTP ${info.method} ${url} failed`, error, context, ['http-error']);
+      } else if (status >= 500) {
+        logger.error(`HTTP ${info.method} ${url} ${status}`, undefined, context, ['http-error']);
+      } else if (status >= 400) {
+        logger.warn(`HTTP ${info.method} ${url} ${status}`, context, ['http-response']);
+      } else {
+        logger.info(`HTTP ${info.method} ${url} ${status}`, context, ['http-response']);
+      }
+    });
+    span.end();
+  }
+
+  private shouldIgnore(url: string): boolean {
+    return matchesUrl(url, this.config.ignoreUrls);
+  }
+
+  private shouldPropagate(url: string): boolean {
+    try {
+      const resolved = new URL(url, this.baseUrl());
+      if (typeof window !== 'undefined' && window.location && resolved.origin === window.location.origin) {
+        return true;
+      }
+      return matchesUrl(resolved.href, this.config.tracePropagationTargets);
+    } catch (error) {
+      return false;
+    }
+  }
+
+  private baseUrl(): string {
+    return typeof window !== 'undefined' && window.location ? window.location.href : 'http://localhost';
+  }
+}
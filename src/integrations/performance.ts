@@ -0,0 +1,275 @@
+import { HermesTrace } from '../logger';
+import { FrameworkIntegration, PerformanceIntegrationConfig, WebVitalName, WebVitalRating } from '../types';
+import { internalConsole } from '../utils/internal-request';
+
+// [good, poor] boundaries from https://web.dev/articles/vitals
+const DEFAULT_THRESHOLDS: Record<WebVitalName, [number, number]> = {
+  LCP: [2500, 4000],
+  CLS: [0.1, 0.25],
+  INP: [200, 500],
+  FCP: [1800, 3000],
+  TTFB: [800, 1800],
+};
+
+const round = (value: number, digits = 0): number => {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+};
+
+export class PerformanceIntegration implements FrameworkIntegration {
+  private logger?: HermesTrace;
+  private readonly config: Required<PerformanceIntegrationConfig>;
+  private readonly thresholds: Record<WebVitalName, [number, number]>;
+  private observers: PerformanceObserver[] = [];
+  private teardown: Array<() => void> = [];
+  private lcpObserver?: PerformanceObserver;
+  private lcp?: { value: number; element?: string; url?: string };
+  private cls?: number;
+  private clsSession: { value: number; firstTime: number; lastTime: number } = { value: 0, firstTime: 0, lastTime: 0 };
+  private interactions = new Map<number, number>();
+  private reported: Partial<Record<WebVitalName, number>> = {};
+
+  constructor(config: PerformanceIntegrationConfig = {}) {
+    this.config = {
+      webVitals: true,
+      longTasks: true,
+      navigationTiming: true,
+      longTaskThreshold: 50,
+      thresholds: {},
+      tags: [],
+      ...config,
+    };
+    this.thresholds = { ...DEFAULT_THRESHOLDS, ...this.config.thresholds };
+  }
+
+  install(logger: HermesTrace): void {
+    if (typeof window === 'undefined' || typeof performance === 'undefined') return;
+
+    this.uninstall();
+    this.logger = logger;
+
+    if (this.config.webVitals) {
+      this.observeWebVitals();
+    }
+
+    if (this.config.longTasks) {
+      this.observe('longtask', entries => entries.forEach(entry => this.reportLongTask(entry)));
+    }
+
+    if (this.config.navigationTiming) {
+      this.whenLoaded(() => this.reportNavigationTiming());
+    }
+  }
+
+  uninstall(): void {
+    this.observers.forEach(observer => observer.disconnect());
+    this.observers = [];
+    this.teardown.forEach(restore => restore());
+    this.teardown = [];
+    this.lcpObserver = undefined;
+    this.logger = undefined;
+  }
+
+  /**
+   * Reports LCP, CLS and INP as they stand now. Called automatically when the
+   * page is hidden, since these metrics keep changing for the page's lifetime.
+   */
+  public reportPending(): void {
+    if (this.lcp) {
+      this.reportVital('LCP', this.lcp.value, {
+        ...(this.lcp.element && { element: this.lcp.element }),
+        ...(this.lcp.url && { resourceUrl: this.lcp.url }),
+      });
+    }
+
+    if (this.cls !== undefined) {
+      this.reportVital('CLS', this.cls);
+    }
+
+    const inp = this.estimateInp();
+    if (inp !== undefined) {
+      this.reportVital('INP', inp, { interactionCount: this.interactions.size });
+    }
+  }
+
+  private observeWebVitals(): void {
+    this.observe('paint', entries => {
+      const fcp = entries.find(entry => entry.name === 'first-contentful-paint');
+      if (fcp) {
+        this.reportVital('FCP', fcp.startTime);
+      }
+    });
+
+    this.lcpObserver = this.observe('largest-contentful-paint', entries => {
+      const last: any = entries[entries.length - 1];
+      if (last) {
+        this.lcp = {
+          value: last.renderTime || last.loadTime || last.startTime,
+          element: last.element?.tagName?.toLowerCase(),
+          url: last.url || undefined,
+        };
+      }
+    });
+
+    if (this.observe('layout-shift', entries => entries.forEach(entry => this.addLayoutShift(entry)))) {
+      this.cls = 0;
+    }
+
+    const recordInteraction = (entries: any[]) => entries.forEach(entry => {
+      if (!entry.interactionId) return;
+      const duration = Math.max(this.interactions.get(entry.interactionId) || 0, entry.duration);
+      this.interactions.set(entry.interactionId, duration);
+    });
+    this.observe('event', recordInteraction, { durationThreshold: 40 });
+    this.observe('first-input', recordInteraction);
+
+    this.reportTtfb();
+
+    // LCP stops changing once the user interacts with the page
+    const finalizeLcp = () => {
+      if (this.lcpObserver) {
+        this.lcpObserver.disconnect();
+        this.lcpObserver = undefined;
+      }
+    };
+    this.listen(window, 'keydown', finalizeLcp);
+    this.listen(window, 'click', finalizeLcp);
+
+    const onHidden = () => {
+      finalizeLcp();
+      this.reportPending();
+      // The logger's own unload flush has already run by the time we get here
+      this.logger?.flushOnUnload();
+    };
+    this.listen(window, 'pagehide', onHidden);
+    if (typeof document !== 'undefined') {
+      this.listen(document, 'visibilitychange', () => {
+        if (document.visibilityState === 'hidden') onHidden();
+      });
+    }
+  }
+
+  private addLayoutShift(entry: any): void {
+    if (entry.hadRecentInput) return;
+
+    // Shifts are grouped into session windows (max 5s, gaps under 1s); CLS is the worst window
+    const session = this.clsSession;
+    if (session.value > 0 && entry.startTime - session.lastTime < 1000 && entry.startTime - session.firstTime < 5000) {
+      session.value += entry.value;
+      session.lastTime = entry.startTime;
+    } else {
+      this.clsSession = { value: entry.value, firstTime: entry.startTime, lastTime: entry.startTime };
+    }
+
+    this.cls = Math.max(this.cls || 0, this.clsSession.value);
+  }
+
+  private estimateInp(): number | undefined {
+    if (this.interactions.size === 0) return undefined;
+
+    // Approximates the 98th percentile by skipping one worst interaction per 50
+    const durations = Array.from(this.interactions.values()).sort((a, b) => b - a);
+    const index = Math.min(durations.length - 1, Math.floor(this.interactions.size / 50));
+    return durations[index];
+  }
+
+  private reportTtfb(): void {
+    const navigation: any = performance.getEntriesByType?.('navigation')[0];
+    if (!navigation || navigation.responseStart <= 0) return;
+
+    this.reportVital('TTFB', Math.max(0, navigation.responseStart - (navigation.activationStart || 0)));
+  }
+
+  private reportVital(name: WebVitalName, value: number, extra: Record<string, any> = {}): void {
+    const logger = this.logger;
+    const rounded = round(value, name === 'CLS' ? 4 : 0);
+    if (!logger || this.reported[name] === rounded) return;
+    this.reported[name] = rounded;
+
+    const [good, poor] = this.thresholds[name];
+    const rating: WebVitalRating = value <= good ? 'good' : value <= poor ? 'needs-improvement' : 'poor';
+    const context = {
+      metric: name,
+      value: rounded,
+      rating,
+      pageUrl: window.location?.href,
+      ...extra,
+    };
+    const tags = [...this.config.tags, 'web-vital'];
+
+    if (rating === 'poor') {
+      logger.warn(`Web vital ${name} is poor`, context, tags);
+    } else {
+      logger.info(`Web vital ${name}`, context, tags);
+    }
+  }
+
+  private reportLongTask(entry: any): void {
+    if (!this.logger || entry.duration < this.config.longTaskThreshold) return;
+
+    this.logger.info('Long task', {
+      durationMs: round(entry.duration),
+      startTime: round(entry.startTime),
+      pageUrl: window.location?.href,
+      ...(entry.attribution?.[0]?.containerType && { container: entry.attribution[0].containerType }),
+    }, [...this.config.tags, 'long-task']);
+  }
+
+  private reportNavigationTiming(): void {
+    const navigation: any = performance.getEntriesByType?.('navigation')[0];
+    if (!this.logger || !navigation) return;
+
+    this.logger.info('Navigation timing', {
+      navigationType: navigation.type,
+      dnsMs: round(navigation.domainLookupEnd - navigation.domainLookupStart),
+      connectMs: round(navigation.connectEnd - navigation.connectStart),
+      tlsMs: navigation.secureConnectionStart > 0 ? round(navigation.connectEnd - navigation.secureConnectionStart) : 0,
+      requestMs: round(navigation.responseStart - navigation.requestStart),
+      responseMs: round(navigation.responseEnd - navigation.responseStart),
+      domInteractiveMs: round(navigation.domInteractive),
+      domContentLoadedMs: round(navigation.domContentLoadedEventEnd),
+      loadMs: round(navigation.loadEventEnd),
+      transferSize: navigation.transferSize,
+      pageUrl: window.location?.href,
+    }, [...this.config.tags, 'navigation-timing']);
+  }
+
+  private whenLoaded(callback: () => void): void {
+    // loadEventEnd is only populated after the load handlers have finished
+    const run = () => {
+      const timer = setTimeout(callback, 0);
+      this.teardown.push(() => clearTimeout(timer));
+    };
+
+    if (typeof document === 'undefined' || document.readyState === 'complete') {
+      run();
+    } else {
+      this.listen(window, 'load', run);
+    }
+  }
+
+  private observe(
+    type: string,
+    callback: (entries: any[]) => void,
+    options: Record<string, any> = {}
+  ): PerformanceObserver | undefined {
+    if (typeof PerformanceObserver === 'undefined' || !PerformanceObserver.supportedEntryTypes?.includes(type)) {
+      return undefined;
+    }
+
+    try {
+      const observer = new PerformanceObserver(list => callback(list.getEntries()));
+      observer.observe({ type, buffered: true, ...options });
+      this.observers.push(observer);
+      return observer;
+    } catch (error) {
+      internalConsole.error(`Failed to observe ${type} performance entries:`, error);
+      return undefined;
+    }
+  }
+
+  private listen(target: EventTarget, type: string, listener: () => void): void {
+    target.addEventListener(type, listener, true);
+    this.teardown.push(() => target.removeEventListener(type, listener, true));
+  }
+}
@@ -6,7 +6,8 @@ try {
   // React not available
 }
 import { HermesTrace } from '../logger';
-import { FrameworkIntegration, ErrorBoundaryConfig } from '../types';
+import { FrameworkIntegration, ErrorBoundaryConfig, GlobalErrorIntegrationConfig } from '../types';
+import { GlobalErrorIntegration } from './global-errors';
 
 interface ErrorBoundaryState {
   hasError: boolean;
@@ -20,40 +21,19 @@ interface ErrorBoundaryProps extends ErrorBoundaryConfig {
 
 export class ReactIntegration implements FrameworkIntegration {
   private logger?: HermesTrace;
-  private originalConsoleError?: typeof console.error;
+  private globalErrors: GlobalErrorIntegration;
+
+  constructor(globalErrors: GlobalErrorIntegrationConfig = {}) {
+    this.globalErrors = new GlobalErrorIntegration(globalErrors);
+  }
 
   install(logger: HermesTrace): void {
     this.logger = logger;
-    this.setupGlobalErrorHandling();
-    this.setupUnhandledRejectionHandling();
+    this.globalErrors.install(logger);
   }
 
   uninstall(): void {
-    if (this.originalConsoleError) {
-      console.error = this.originalConsoleError;
-    }
-  }
-
-  private setupGlobalErrorHandling(): void {
-    if (typeof window !== 'undefined') {
-      window.addEventListener('error', (event) => {
-        this.logger?.error('Global error caught', event.error, {
-          filename: event.filename,
-          lineno: event.lineno,
-          colno: event.colno,
-        }, ['global-error']);
-      });
-    }
-  }
-
-  private setupUnhandledRejectionHandling(): void {
-    if (typeof window !== 'undefined') {
-      window.addEventListener('unhandledrejection', (event) => {
-        this.logger?.error('Unhandled promise rejection', event.reason, {
-          promise: event.promise,
-        }, ['unhandled-rejection']);
-      });
-    }
+    this.globalErrors.uninstall();
   }
 }
 
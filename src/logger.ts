@@ -1,11 +1,44 @@
-import { LogLevel, LogEntry, Transport, HermesTraceConfig } from './types';
+import {
+  LogLevel,
+  LogEntry,
+  Transport,
+  HermesTraceConfig,
+  ErrorContextConfig,
+  LogProcessor,
+  ProcessorOptions,
+  Breadcrumb,
+  BreadcrumbInput,
+  TimerOutcome,
+  MetricTags,
+  MetricsExporter,
+} from './types';
 import { DataMasker } from './utils/masking';
+import { RingBuffer } from './utils/ring-buffer';
+import { Sampler, RateLimiter } from './utils/sampling';
+import { Deduplicator } from './utils/dedup';
+import { ProcessorChain, runProcessors, isPromiseLike } from './utils/processors';
+import { TraceContext, Span } from './utils/trace-context';
+import { BreadcrumbRecorder } from './utils/breadcrumbs';
+import { runInternal, internalConsole } from './utils/internal-request';
+import { Timer } from './utils/timer';
+import { MetricsRegistry, Counter, Gauge, Histogram } from './utils/metrics';
 
 export class HermesTrace {
   private transports: Transport[] = [];
   private config: Required<HermesTraceConfig>;
   private sessionId: string;
   private dataMasker: DataMasker;
+  private errorContext: Required<ErrorContextConfig>;
+  private history: RingBuffer<LogEntry>;
+  private sampler: Sampler;
+  private rateLimiter: RateLimiter;
+  private deduplicator: Deduplicator;
+  private processors = new ProcessorChain();
+  private pendingProcessing = new Set<Promise<void>>();
+  private traceContext: TraceContext;
+  private breadcrumbs: BreadcrumbRecorder;
+  private timers = new Map<string, Timer>();
+  private metrics: MetricsRegistry;
 
   constructor(config: HermesTraceConfig = {}) {
     this.config = {
@@ -19,20 +52,60 @@ export class HermesTrace {
       autoFlush: true,
       flushInterval: 5000,
       masking: { enabled: true },
+      errorContext: { enabled: false },
+      sampling: {},
+      rateLimit: { enabled: false },
+      dedup: { enabled: false },
+      processors: [],
+      traceparent: '',
+      breadcrumbs: { enabled: false },
+      metrics: {},
       ...config,
     };
 
     this.sessionId = this.generateSessionId();
     this.transports = [...this.config.transports];
     this.dataMasker = new DataMasker(this.config.masking);
+    this.errorContext = {
+      enabled: false,
+      maxEntries: 50,
+      maxAge: 30000,
+      mode: 'attach',
+      ...this.config.errorContext,
+    };
+    this.history = new RingBuffer(this.errorContext.enabled ? this.errorContext.maxEntries : 0);
+    this.sampler = new Sampler(this.config.sampling);
+    this.rateLimiter = new RateLimiter(this.config.rateLimit);
+    this.deduplicator = new Deduplicator(this.config.dedup, entry => {
+      this.dispatch(entry);
+      this.enforceBufferLimit();
+    });
+    this.config.processors.forEach(processor => this.processors.add(processor));
+    this.traceContext = new TraceContext(this.config.traceparent);
+    this.breadcrumbs = new BreadcrumbRecorder(this.config.breadcrumbs, value =>
+      this.config.masking?.enabled ? this.dataMasker.maskData(value) : value
+    );
+    this.breadcrumbs.install();
+    this.metrics = new MetricsRegistry(
+      this.config.metrics,
+      () => this.transports.filter(transport => transport.sendMetrics) as MetricsExporter[],
+      this.config.autoFlush
+    );
 
     if (this.config.autoFlush && typeof window !== 'undefined') {
       setInterval(() => this.flush(), this.config.flushInterval);
     }
 
     if (typeof window !== 'undefined') {
-      window.addEventListener('beforeunload', () => this.flush());
-      window.addEventListener('unload', () => this.flush());
+      window.addEventListener('pagehide', () => this.flushOnUnload());
+    }
+
+    if (typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'hidden') {
+          this.flushOnUnload();
+        }
+      });
     }
   }
 
@@ -44,6 +117,177 @@ export class HermesTrace {
     this.transports = this.transports.filter(t => t.name !== name);
   }
 
+  /**
+   * Registers a processor that can enrich, rewrite or drop (by returning null)
+   * entries before they reach transports. Processors run by ascending order,
+   * then registration order. Returns a function that unregisters it.
+   */
+  public use(processor: LogProcessor, options: ProcessorOptions = {}): () => void {
+    return this.processors.add(processor, options.order, options.transport);
+  }
+
+  public startSpan(name: string, parent?: Span | string): Span {
+    return this.traceContext.startSpan(name, parent);
+  }
+
+  /**
+   * Runs fn with the span active so entries logged synchronously inside carry
+   * its traceId/spanId. The span is deactivated as soon as fn returns, since
+   * unrelated work runs while an async fn is awaiting; log from async code
+   * through bindSpan(span). When given a name, a child span is started and
+   * ended around fn (including async results).
+   */
+  public withSpan<T>(spanOrName: Span | string, fn: (span: Span) => T): T {
+    const ownsSpan = typeof spanOrName === 'string';
+    const span = typeof spanOrName === 'string' ? this.startSpan(spanOrName) : spanOrName;
+    const finish = () => {
+      if (ownsSpan) span.end();
+    };
+
+    this.traceContext.activate(span);
+
+    let result: T;
+    try {
+      result = fn(span);
+    } catch (error) {
+      finish();
+      throw error;
+    } finally {
+      this.traceContext.deactivate(span);
+    }
+
+    if (isPromiseLike(result)) {
+      return result.then(
+        value => {
+          finish();
+          return value;
+        },
+        error => {
+          finish();
+          throw error;
+        }
+      ) as T;
+    }
+
+    finish();
+    return result;
+  }
+
+  /**
+   * Returns a logger whose entries and spans belong to span, even after an
+   * await. Use it inside async withSpan callbacks. It is a view of this
+   * logger: transports, context, timers and the rest of its state are
+   * shared, and no flush timers or page listeners are added, so binding a
+   * span per operation is cheap.
+   */
+  public bindSpan(span: Span): HermesTrace {
+    const view: HermesTrace = Object.create(this);
+    view.traceContext = this.traceContext.bind(span);
+    return view;
+  }
+
+  public getTraceparent(): string {
+    return this.traceContext.getTraceparent();
+  }
+
+  /**
+   * Records a breadcrumb that is attached to the next ERROR/FATAL entries.
+   * Clicks, navigations, console calls and network requests are recorded
+   * automatically when breadcrumbs are enabled.
+   */
+  public addBreadcrumb(breadcrumb: BreadcrumbInput): void {
+    this.breadcrumbs.add(breadcrumb);
+  }
+
+  public getBreadcrumbs(): Breadcrumb[] {
+    return this.breadcrumbs.getAll();
+  }
+
+  /**
+   * Starts a high-resolution timer. Calling end() or fail() on the handle logs
+   * an entry with durationMs and the outcome, merged with the given context.
+   */
+  public startTimer(name: string, context?: Record<string, any>): Timer {
+    return new Timer(name, context, (timer, outcome, timerContext, error) =>
+      this.logTimer(timer, outcome, timerContext, error)
+    );
+  }
+
+  /**
+   * Starts a named timer, like console.time(). Named timers are shared with
+   * child loggers, and the logger that calls timeEnd() logs the result with
+   * its own context.
+   */
+  public time(name: string, context?: Record<string, any>): void {
+    this.timers.set(name, new Timer(name, context));
+  }
+
+  public timeEnd(name: string, context?: Record<string, any>): number | undefined {
+    const timer = this.timers.get(name);
+    if (!timer) return undefined;
+
+    this.timers.delete(name);
+    const durationMs = timer.end();
+    this.logTimer(timer, 'success', { ...timer.context, ...context });
+    return durationMs;
+  }
+
+  /**
+   * Times fn inside a span of the same name, logging success or failure
+   * (including rejected promises) and returning fn's result.
+   */
+  public measure<T>(name: string, fn: () => T, context?: Record<string, any>): T {
+    const timer = this.startTimer(name, context);
+
+    return this.withSpan(name, span => {
+      let result: T;
+      try {
+        result = fn();
+      } catch (error) {
+        timer.fail(error as Error);
+        throw error;
+      }
+
+      if (isPromiseLike(result)) {
+        // The span is no longer active once fn settles, so re-enter it to log the outcome
+        return result.then(
+          value => {
+            this.withSpan(span, () => timer.end());
+            return value;
+          },
+          error => {
+            this.withSpan(span, () => timer.fail(error));
+            throw error;
+          }
+        ) as T;
+      }
+
+      timer.end();
+      return result;
+    });
+  }
+
+  /**
+   * Metric instruments are aggregated client-side and sent once per metrics
+   * flush interval to transports that implement sendMetrics() and to the
+   * configured metrics exporters.
+   */
+  public counter(name: string, tags?: MetricTags): Counter {
+    return this.metrics.counter(name, tags);
+  }
+
+  public gauge(name: string, tags?: MetricTags): Gauge {
+    return this.metrics.gauge(name, tags);
+  }
+
+  public histogram(name: string, tags?: MetricTags, buckets?: number[]): Histogram {
+    return this.metrics.histogram(name, tags, buckets);
+  }
+
+  public flushMetrics(): Promise<void> {
+    return this.metrics.flush();
+  }
+
   public setLevel(level: LogLevel): void {
     this.config.level = level;
   }
@@ -73,20 +317,44 @@ export class HermesTrace {
   }
 
   public async flush(): Promise<void> {
+    await Promise.all(Array.from(this.pendingProcessing));
+    this.deduplicator.flush();
     await Promise.all(
       this.transports.map(async transport => {
         if (transport.flush) {
           try {
             await transport.flush();
           } catch (error) {
-            console.error(`Failed to flush transport ${transport.name}:`, error);
+            internalConsole.error(`Failed to flush transport ${transport.name}:`, error);
           }
         }
       })
     );
   }
 
+  public flushOnUnload(): void {
+    this.deduplicator.flush();
+    // Metrics otherwise only leave on their own timer, so the last interval would be lost
+    this.metrics.flush();
+    this.transports.forEach(transport => {
+      try {
+        if (transport.flushOnUnload) {
+          transport.flushOnUnload();
+        } else if (transport.flush) {
+          Promise.resolve(transport.flush()).catch(error => {
+            internalConsole.error(`Failed to flush transport ${transport.name} on unload:`, error);
+          });
+        }
+      } catch (error) {
+        internalConsole.error(`Failed to flush transport ${transport.name} on unload:`, error);
+      }
+    });
+  }
+
   public async close(): Promise<void> {
+    this.breadcrumbs.uninstall();
+    this.metrics.close();
+    await this.metrics.flush();
     await this.flush();
     await Promise.all(
       this.transports.map(async transport => {
@@ -94,7 +362,7 @@ export class HermesTrace {
           try {
             await transport.close();
           } catch (error) {
-            console.error(`Failed to close transport ${transport.name}:`, error);
+            internalConsole.error(`Failed to close transport ${transport.name}:`, error);
           }
         }
       })
@@ -102,11 +370,22 @@ export class HermesTrace {
   }
 
   public createChild(context: Record<string, any>): HermesTrace {
-    return new HermesTrace({
+    const child = new HermesTrace({
       ...this.config,
       context: { ...this.config.context, ...context },
       transports: [...this.transports],
     });
+    child.history = this.history;
+    child.sessionId = this.sessionId;
+    child.sampler = this.sampler;
+    child.rateLimiter = this.rateLimiter;
+    child.processors = this.processors;
+    child.traceContext = this.traceContext;
+    child.breadcrumbs.uninstall();
+    child.breadcrumbs = this.breadcrumbs;
+    child.timers = this.timers;
+    child.metrics = this.metrics;
+    return child;
   }
 
   private log(
@@ -116,8 +395,47 @@ export class HermesTrace {
     tags?: string[],
     error?: Error
   ): void {
-    if (!this.shouldLog(level)) return;
+    if (!this.shouldLog(level)) {
+      if (this.errorContext.enabled) {
+        this.history.push(this.createEntry(level, message, context, tags, error));
+      }
+      return;
+    }
 
+    if (!this.sampler.shouldSample(level, this.sessionId)) return;
+
+    const { allowed, suppressed } = this.rateLimiter.consume(level, message);
+    if (!allowed) return;
+
+    const entry = this.createEntry(
+      level,
+      message,
+      suppressed > 0 ? { ...context, suppressedCount: suppressed } : context,
+      tags,
+      error
+    );
+
+    if (this.errorContext.enabled && (level === LogLevel.ERROR || level === LogLevel.FATAL)) {
+      this.releaseHistory(entry);
+    }
+
+    if (this.breadcrumbs.enabled && (level === LogLevel.ERROR || level === LogLevel.FATAL)) {
+      const breadcrumbs = this.breadcrumbs.getAll();
+      if (breadcrumbs.length > 0) {
+        entry.breadcrumbs = breadcrumbs;
+      }
+    }
+
+    this.track(runProcessors(entry, this.processors.get(), processed => this.deduplicator.add(processed)));
+  }
+
+  private createEntry(
+    level: LogLevel,
+    message: string,
+    context?: Record<string, any>,
+    tags?: string[],
+    error?: Error
+  ): LogEntry {
     const rawEntry: LogEntry = {
       level,
       message,
@@ -126,6 +444,7 @@ export class HermesTrace {
       error,
       tags,
       sessionId: this.sessionId,
+      ...this.traceContext.getFields(),
       ...(this.config.captureUrl && this.getCurrentUrl()),
       ...(this.config.captureUserAgent && this.getUserAgent()),
       ...(this.config.captureStackTrace && error && { stack: error.stack }),
@@ -137,15 +456,81 @@ export class HermesTrace {
       entry.stack = this.captureStackTrace();
     }
 
+    return entry;
+  }
+
+  private dispatch(entry: LogEntry): void {
     this.transports.forEach(transport => {
-      try {
-        transport.log(entry);
-      } catch (transportError) {
-        console.error(`Transport ${transport.name} failed:`, transportError);
+      const processors = [
+        ...(transport.config?.processors || []),
+        ...this.processors.get(transport.name),
+      ];
+
+      if (processors.length === 0) {
+        this.deliver(transport, entry);
+      } else {
+        this.track(runProcessors(entry, processors, processed => this.deliver(transport, processed)));
       }
     });
   }
 
+  private deliver(transport: Transport, entry: LogEntry): void {
+    try {
+      runInternal(() => transport.log(entry));
+    } catch (transportError) {
+      internalConsole.error(`Transport ${transport.name} failed:`, transportError);
+    }
+  }
+
+  private track(result: Promise<void> | void): void {
+    if (!result) return;
+
+    const settle = () => {
+      this.pendingProcessing.delete(result);
+    };
+    this.pendingProcessing.add(result);
+    result.then(settle, settle);
+  }
+
+  private logTimer(timer: Timer, outcome: TimerOutcome, context: Record<string, any>, error?: Error): void {
+    const timerContext = { ...context, timer: timer.name, durationMs: timer.durationMs, outcome };
+
+    if (outcome === 'failure') {
+      this.log(LogLevel.ERROR, `${timer.name} failed`, timerContext, ['timer'], error);
+    } else {
+      this.log(LogLevel.INFO, `${timer.name} completed`, timerContext, ['timer']);
+    }
+  }
+
+  private releaseHistory(entry: LogEntry): void {
+    const cutoff = entry.timestamp.getTime() - this.errorContext.maxAge;
+    const history = this.history.toArray().filter(item => item.timestamp.getTime() >= cutoff);
+    this.history.clear();
+
+    if (history.length === 0) return;
+
+    if (this.errorContext.mode === 'emit') {
+      history.forEach(item => {
+        const tagged = { ...item, tags: [...(item.tags || []), 'error-history'] };
+        this.track(runProcessors(tagged, this.processors.get(), processed => this.dispatch(processed)));
+      });
+    } else {
+      entry.history = history;
+    }
+  }
+
+  private enforceBufferLimit(): void {
+    const buffered = this.transports.filter(t => t.getBufferedCount && t.dropBuffered);
+    let total = buffered.reduce((sum, t) => sum + t.getBufferedCount!(), 0);
+
+    while (total > this.config.maxBufferSize) {
+      const largest = buffered.reduce((a, b) => (b.getBufferedCount!() > a.getBufferedCount!() ? b : a));
+      const dropped = largest.dropBuffered!(total - this.config.maxBufferSize);
+      if (dropped === 0) break;
+      total -= dropped;
+    }
+  }
+
   private shouldLog(level: LogLevel): boolean {
     const levels = [LogLevel.DEBUG, LogLevel.INFO, LogLevel.WARN, LogLevel.ERROR, LogLevel.FATAL];
     const configLevelIndex = levels.indexOf(this.config.level);
@@ -174,7 +559,7 @@ export class HermesTrace {
       const stack = (e as Error).stack;
       if (stack) {
         const lines = stack.split('\n');
-        return lines.slice(3).join('\n');
+        return lines.slice(4).join('\n');
       }
     }
     return '';
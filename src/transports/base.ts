@@ -1,10 +1,37 @@
-import { Transport, TransportConfig, LogEntry, LogLevel } from '../types';
+import { Transport, TransportConfig, TransportRequest, LogEntry, LogLevel } from '../types';
+import { OfflineQueue } from '../utils/offline-queue';
+import { RetryPolicy, CircuitBreaker, TransportError } from '../utils/retry';
+import { runInternal, internalConsole } from '../utils/internal-request';
+
+const MAX_UNLOAD_PAYLOAD_BYTES = 64 * 1024;
+
+// Browsers cap the combined size of in-flight keepalive bodies per page, not
+// per request, so the budget is shared by every transport.
+let keepaliveBytesInFlight = 0;
+
+export const byteLength = (body: string): number => {
+  if (typeof TextEncoder !== 'undefined') {
+    return new TextEncoder().encode(body).length;
+  }
+  if (typeof Blob !== 'undefined') {
+    return new Blob([body]).size;
+  }
+  return body.length;
+};
 
 export abstract class BaseTransport implements Transport {
   public readonly name: string;
   public readonly config: TransportConfig;
   protected buffer: LogEntry[] = [];
+  protected queue?: OfflineQueue;
+  protected readonly retryPolicy: RetryPolicy;
+  protected readonly circuitBreaker: CircuitBreaker;
+  private droppedCount = 0;
+  private failedAttempts = 0;
+  private retryAt = 0;
   private flushTimer?: NodeJS.Timeout;
+  private retryTimer?: NodeJS.Timeout;
+  private onlineListener?: () => void;
 
   constructor(name: string, config: TransportConfig = {}) {
     this.name = name;
@@ -13,13 +40,24 @@ export abstract class BaseTransport implements Transport {
       enabled: true,
       format: 'json',
       bufferSize: 100,
+      maxBufferSize: 1000,
+      overflowPolicy: 'drop-oldest',
       flushInterval: 5000,
+      unloadDelivery: 'auto',
       ...config,
     };
 
+    this.retryPolicy = new RetryPolicy(this.config.retry);
+    this.circuitBreaker = new CircuitBreaker(this.config.circuitBreaker);
+
     if (this.config.flushInterval && this.config.flushInterval > 0) {
       this.startFlushTimer();
     }
+
+    if (this.config.offlineQueue && this.config.offlineQueue.enabled !== false) {
+      this.queue = new OfflineQueue(name, this.config.offlineQueue);
+      this.setupQueueReplay();
+    }
   }
 
   protected shouldLog(level: LogLevel): boolean {
@@ -44,13 +82,23 @@ export abstract class BaseTransport implements Transport {
       tags: entry.tags,
       userId: entry.userId,
       sessionId: entry.sessionId,
+      traceId: entry.traceId,
+      spanId: entry.spanId,
       url: entry.url,
       userAgent: entry.userAgent,
       stack: entry.stack,
+      count: entry.count,
     });
   }
 
   protected addToBuffer(entry: LogEntry): void {
+    if (this.buffer.length >= this.config.maxBufferSize!) {
+      const index = this.selectDropIndex(entry);
+      this.droppedCount++;
+      if (index === -1) return;
+      this.buffer.splice(index, 1);
+    }
+
     this.buffer.push(entry);
     
     if (this.buffer.length >= (this.config.bufferSize || 100)) {
@@ -58,6 +106,64 @@ export abstract class BaseTransport implements Transport {
     }
   }
 
+  public getBufferedCount(): number {
+    return this.buffer.length;
+  }
+
+  public dropBuffered(count: number): number {
+    let dropped = 0;
+    while (dropped < count && this.buffer.length > 0) {
+      this.buffer.splice(this.selectDropIndex(), 1);
+      dropped++;
+    }
+    this.droppedCount += dropped;
+    return dropped;
+  }
+
+  /**
+   * Picks the buffered entry to evict according to the overflow policy.
+   * Returns -1 when the incoming entry itself should be discarded.
+   */
+  private selectDropIndex(incoming?: LogEntry): number {
+    switch (this.config.overflowPolicy) {
+      case 'drop-newest':
+        return incoming ? -1 : this.buffer.length - 1;
+      case 'drop-lowest-level': {
+        let lowest = 0;
+        this.buffer.forEach((entry, index) => {
+          if (this.levelRank(entry.level) < this.levelRank(this.buffer[lowest].level)) {
+            lowest = index;
+          }
+        });
+        if (incoming && this.levelRank(incoming.level) < this.levelRank(this.buffer[lowest].level)) {
+          return -1;
+        }
+        return lowest;
+      }
+      case 'drop-oldest':
+      default:
+        return 0;
+    }
+  }
+
+  private levelRank(level: LogLevel): number {
+    return [LogLevel.DEBUG, LogLevel.INFO, LogLevel.WARN, LogLevel.ERROR, LogLevel.FATAL].indexOf(level);
+  }
+
+  private emitDroppedNotice(): void {
+    if (this.droppedCount === 0) return;
+
+    const dropped = this.droppedCount;
+    this.droppedCount = 0;
+    this.buffer.push({
+      level: LogLevel.WARN,
+      message: `${dropped} logs dropped by transport ${this.name} due to buffer overflow`,
+      timestamp: new Date(),
+      context: { dropped, overflowPolicy: this.config.overflowPolicy },
+      tags: ['hermes-trace-dropped'],
+    });
+  }
+
   private startFlushTimer(): void {
     if (typeof window !== 'undefined') {
       this.flushTimer = setInterval(() => {
@@ -68,27 +174,240 @@ export abstract class BaseTransport implements Transport {
     }
   }
 
+  private setupQueueReplay(): void {
+    // Deferred so subclass constructors finish before queued batches are sent.
+    Promise.resolve().then(() => this.replayQueue());
+
+    if (typeof window !== 'undefined' && this.queue!.replayOnOnline) {
+      this.onlineListener = () => this.replayQueue();
+      window.addEventListener('online', this.onlineListener);
+    }
+  }
+
+  private isOffline(): boolean {
+    return typeof navigator !== 'undefined' && navigator.onLine === false;
+  }
+
+  private canAttempt(): boolean {
+    return Date.now() >= this.retryAt && this.circuitBreaker.canRequest();
+  }
+
+  private async send(entries: LogEntry[]): Promise<void> {
+    try {
+      await this.flushEntries(entries);
+    } catch (error) {
+      this.recordFailure(error);
+      throw error;
+    }
+    this.failedAttempts = 0;
+    this.retryAt = 0;
+    this.circuitBreaker.recordSuccess();
+    this.emitDroppedNotice();
+  }
+
+  private recordFailure(error: unknown): void {
+    this.circuitBreaker.recordFailure();
+    if (!this.retryPolicy.isRetryable(error)) return;
+
+    this.failedAttempts++;
+    this.retryAt = Date.now() + this.retryPolicy.getDelay(this.failedAttempts, error);
+    this.scheduleRetry();
+  }
+
+  private scheduleRetry(): void {
+    if (typeof window === 'undefined') return;
+
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+    }
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = undefined;
+      this.flush();
+      this.replayQueue();
+    }, Math.max(0, this.retryAt - Date.now()));
+  }
+
+  public async replayQueue(): Promise<void> {
+    if (!this.queue || this.isOffline() || !this.canAttempt()) return;
+    await this.queue.drain(entries => this.send(entries), error => this.retryPolicy.isRetryable(error));
+  }
+
   public async flush(): Promise<void> {
     if (this.buffer.length === 0) return;
+    // Entries stay buffered while backing off or while the circuit is open.
+    if (!this.canAttempt()) return;
     
     const entries = [...this.buffer];
     this.buffer = [];
+
+    if (this.queue && this.isOffline()) {
+      await this.queue.enqueue(entries);
+      return;
+    }
     
     try {
-      await this.flushEntries(entries);
+      await this.send(entries);
     } catch (error) {
-      console.error(`Failed to flush entries for transport ${this.name}:`, error);
+      internalConsole.error(`Failed to flush entries for transport ${this.name}:`, error);
+      const undelivered = error instanceof TransportError && error.undelivered ? error.undelivered : entries;
+      await this.handleFailedEntries(undelivered, error);
+      return;
+    }
+
+    await this.replayQueue();
+  }
+
+  private async handleFailedEntries(entries: LogEntry[], error: unknown): Promise<void> {
+    if (!this.retryPolicy.isRetryable(error)) {
+      internalConsole.error(`Dropping ${entries.length} entries for transport ${this.name}: non-retryable error`);
+      return;
+    }
+
+    if (this.queue) {
+      await this.queue.enqueue(entries);
+    } else if (this.failedAttempts < this.retryPolicy.maxAttempts) {
       this.buffer.unshift(...entries);
+      this.dropBuffered(this.buffer.length - this.config.maxBufferSize!);
+    } else {
+      internalConsole.error(`Dropping ${entries.length} entries for transport ${this.name} after ${this.failedAttempts} attempts`);
+      this.failedAttempts = 0;
+    }
+  }
+
+  /**
+   * Hands buffered entries to the browser in a way that survives page
+   * navigation or tab close. Transports that can describe their HTTP request
+   * via buildRequest use sendBeacon or fetch keepalive; others fall back to
+   * a regular flush.
+   */
+  public flushOnUnload(): void {
+    if (this.buffer.length === 0) return;
+
+    if (!this.buildRequest || this.config.unloadDelivery === false) {
+      this.flush();
+      return;
+    }
+
+    const entries = [...this.buffer];
+    this.buffer = [];
+
+    const undelivered = this.splitForUnload(entries)
+      .filter(chunk => !this.sendUnloadRequest(this.buildRequest!(chunk)))
+      .reduce<LogEntry[]>((all, chunk) => all.concat(chunk), []);
+
+    if (undelivered.length === 0) return;
+
+    if (this.queue) {
+      this.queue.enqueue(undelivered);
+    } else {
+      this.buffer.unshift(...undelivered);
+    }
+  }
+
+  private splitForUnload(entries: LogEntry[]): LogEntry[][] {
+    return this.splitBatches(entries, Infinity, MAX_UNLOAD_PAYLOAD_BYTES, chunk => this.buildRequest!(chunk).body);
+  }
+
+  /**
+   * Splits entries into batches of at most maxEntries whose serialized body
+   * stays within maxBytes. A single oversized entry still gets its own batch;
+   * the endpoint decides whether to reject it.
+   */
+  protected splitBatches(
+    entries: LogEntry[],
+    maxEntries: number,
+    maxBytes: number,
+    serialize: (batch: LogEntry[]) => string
+  ): LogEntry[][] {
+    const splitBySize = (batch: LogEntry[]): LogEntry[][] => {
+      if (batch.length <= 1 || byteLength(serialize(batch)) <= maxBytes) {
+        return [batch];
+      }
+
+      const middle = Math.ceil(batch.length / 2);
+      return [...splitBySize(batch.slice(0, middle)), ...splitBySize(batch.slice(middle))];
+    };
+
+    const batches: LogEntry[][] = [];
+    for (let i = 0; i < entries.length; i += maxEntries) {
+      batches.push(...splitBySize(entries.slice(i, i + maxEntries)));
+    }
+    return batches;
+  }
+
+  /**
+   * Sends batches one after another. When one fails, it and every batch
+   * after it are reported as undelivered, so batches that already went
+   * through are not retried.
+   */
+  protected async sendBatches(batches: LogEntry[][], send: (batch: LogEntry[]) => Promise<void>): Promise<void> {
+    for (let i = 0; i < batches.length; i++) {
+      try {
+        await send(batches[i]);
+      } catch (error) {
+        const transportError = error instanceof TransportError
+          ? error
+          : new TransportError(error instanceof Error ? error.message : String(error));
+        const failed = transportError.undelivered || batches[i];
+        transportError.undelivered = batches.slice(i + 1).reduce<LogEntry[]>((all, batch) => all.concat(batch), failed);
+        throw transportError;
+      }
     }
   }
 
+  private sendUnloadRequest(request: TransportRequest): boolean {
+    const mode = this.config.unloadDelivery;
+    const method = request.method || 'POST';
+    const hasCustomHeaders = Object.keys(request.headers).some(header => header.toLowerCase() !== 'content-type');
+    const canBeacon = typeof navigator !== 'undefined' && typeof navigator.sendBeacon === 'function' && method === 'POST';
+
+    if (mode === 'beacon' || (mode === 'auto' && canBeacon && !hasCustomHeaders)) {
+      if (!canBeacon) return false;
+      const type = request.headers['Content-Type'] || 'text/plain';
+      try {
+        return navigator.sendBeacon(request.url, new Blob([request.body], { type }));
+      } catch (error) {
+        return false;
+      }
+    }
+
+    const size = byteLength(request.body);
+    if (typeof fetch !== 'function' || keepaliveBytesInFlight + size > MAX_UNLOAD_PAYLOAD_BYTES) {
+      return false;
+    }
+
+    keepaliveBytesInFlight += size;
+    this.sendHttp(request.url, {
+      method,
+      headers: request.headers,
+      body: request.body,
+      keepalive: true,
+    })
+      .catch(() => undefined)
+      .then(() => {
+        keepaliveBytesInFlight -= size;
+      });
+    return true;
+  }
+
+  protected sendHttp(url: string, init: Parameters<typeof fetch>[1]): Promise<Response> {
+    return runInternal(() => fetch(url, init));
+  }
+
   public close(): void {
     if (this.flushTimer) {
       clearInterval(this.flushTimer);
     }
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+    }
+    if (this.onlineListener) {
+      window.removeEventListener('online', this.onlineListener);
+    }
     this.flush();
   }
 
   abstract log(entry: LogEntry): Promise<void> | void;
   protected abstract flushEntries(entries: LogEntry[]): Promise<void>;
+  protected buildRequest?(entries: LogEntry[]): TransportRequest;
 }
\ No newline at end of file
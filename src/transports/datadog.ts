@@ -1,5 +1,14 @@
 import { BaseTransport } from './base';
-import { LogEntry, DatadogConfig } from '../types';
+import { TransportError } from '../utils/retry';
+import { hexToDecimal } from '../utils/trace-context';
+import { gzip, supportsGzip } from '../utils/compression';
+import { LogEntry, DatadogConfig, TransportRequest, MetricPoint } from '../types';
+
+// https://docs.datadoghq.com/api/latest/logs/#send-logs
+const MAX_BATCH_ENTRIES = 1000;
+const MAX_BATCH_BYTES = 5 * 1024 * 1024;
+const LOGS_PATH = '/api/v2/logs';
+const SERIES_PATH = '/api/v1/series';
 
 interface DatadogLogPayload {
   ddsource: string;
@@ -16,8 +25,23 @@ interface DatadogLogPayload {
   [key: string]: any;
 }
 
+interface DatadogSeries {
+  metric: string;
+  type: 'count' | 'gauge';
+  points: [number, number][];
+  tags: string[];
+  interval?: number;
+  host?: string;
+}
+
 export class DatadogTransport extends BaseTransport {
-  private readonly apiKey: string;
+  private readonly apiKey?: string;
+  private readonly logsKey?: string;
+  private readonly site: string;
+  private readonly proxyUrl?: string;
+  private readonly logsUrl: string;
+  private readonly seriesUrl: string;
+  private readonly compression: boolean;
   private readonly service: string;
   private readonly env?: string;
   private readonly version?: string;
@@ -28,6 +52,13 @@ export class DatadogTransport extends BaseTransport {
   constructor(config: DatadogConfig) {
     super('datadog', config);
     this.apiKey = config.apiKey;
+    // The intake accepts client tokens in place of an API key
+    this.logsKey = config.clientToken || config.apiKey;
+    this.site = config.site || 'datadoghq.com';
+    this.proxyUrl = config.proxyUrl;
+    this.logsUrl = this.proxied(LOGS_PATH) || `https://http-intake.logs.${this.site}${LOGS_PATH}`;
+    this.seriesUrl = this.proxied(SERIES_PATH) || `https://api.${this.site}${SERIES_PATH}`;
+    this.compression = config.compression !== false;
     this.service = config.service;
     this.env = config.env;
     this.version = config.version;
@@ -41,28 +72,112 @@ export class DatadogTransport extends BaseTransport {
     this.addToBuffer(entry);
   }
 
+  private proxied(path: string): string | undefined {
+    if (!this.proxyUrl) return undefined;
+    return `${this.proxyUrl}${this.proxyUrl.includes('?') ? '&' : '?'}ddforward=${encodeURIComponent(path)}`;
+  }
+
+  protected buildRequest(entries: LogEntry[]): TransportRequest {
+    const payload = entries.map(entry => this.createDatadogPayload(entry));
+
+    return {
+      url: this.logsUrl,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.logsKey && { 'DD-API-KEY': this.logsKey }),
+      },
+      body: JSON.stringify(payload),
+    };
+  }
+
   protected async flushEntries(entries: LogEntry[]): Promise<void> {
     if (entries.length === 0) return;
 
-    const payload = entries.map(entry => this.createDatadogPayload(entry));
+    const batches = this.splitBatches(entries, MAX_BATCH_ENTRIES, MAX_BATCH_BYTES, batch => this.buildRequest(batch).body);
+    await this.sendBatches(batches, batch => this.sendBatch(batch));
+  }
+
+  private async sendBatch(entries: LogEntry[]): Promise<void> {
+    const request = this.buildRequest(entries);
+    const compress = this.compression && supportsGzip();
 
     try {
-      const response = await fetch('https://http-intake.logs.datadoghq.com/v1/input/' + this.apiKey, {
+      const response = await this.sendHttp(request.url, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(payload),
+        headers: compress ? { ...request.headers, 'Content-Encoding': 'gzip' } : request.headers,
+        body: compress ? await gzip(request.body) : request.body,
       });
 
       if (!response.ok) {
-        throw new Error(`Datadog transport failed: ${response.status} ${response.statusText}`);
+        throw TransportError.fromResponse('Datadog', response);
       }
     } catch (error) {
+      if (error instanceof TransportError) throw error;
       throw new Error(`Failed to send logs to Datadog: ${error}`);
     }
   }
 
+  /**
+   * Sends aggregated metrics to the series API; histograms become
+   * count/sum/avg/min/max series. The series API needs an API key, so browser
+   * apps should go through proxyUrl and let the proxy add it.
+   */
+  public async sendMetrics(metrics: MetricPoint[]): Promise<void> {
+    if (metrics.length === 0) return;
+    if (!this.apiKey && !this.proxyUrl) {
+      throw new Error('Datadog metrics require an API key or a proxyUrl; client tokens are only accepted for logs');
+    }
+
+    const series = metrics.reduce<DatadogSeries[]>((all, point) => all.concat(this.toDatadogSeries(point)), []);
+    const response = await this.sendHttp(this.seriesUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey && { 'DD-API-KEY': this.apiKey }),
+      },
+      body: JSON.stringify({ series }),
+    });
+
+    if (!response.ok) {
+      throw TransportError.fromResponse('Datadog', response);
+    }
+  }
+
+  private toDatadogSeries(point: MetricPoint): DatadogSeries[] {
+    const timestamp = Math.floor(point.timestamp.getTime() / 1000);
+    const interval = Math.max(1, Math.round((point.timestamp.getTime() - point.startTime.getTime()) / 1000));
+    const tags = [
+      ...this.tags,
+      `service:${this.service}`,
+      ...(this.env ? [`env:${this.env}`] : []),
+      ...(this.version ? [`version:${this.version}`] : []),
+      ...Object.keys(point.tags).map(key => `${key}:${point.tags[key]}`),
+    ];
+    const series = (metric: string, type: DatadogSeries['type'], value: number): DatadogSeries => ({
+      metric,
+      type,
+      points: [[timestamp, value]],
+      tags,
+      ...(type === 'count' && { interval }),
+      ...(this.hostname && { host: this.hostname }),
+    });
+
+    switch (point.type) {
+      case 'counter':
+        return [series(point.name, 'count', point.value!)];
+      case 'gauge':
+        return [series(point.name, 'gauge', point.value!)];
+      case 'histogram':
+        return [
+          series(`${point.name}.count`, 'count', point.count!),
+          series(`${point.name}.sum`, 'count', point.sum!),
+          series(`${point.name}.avg`, 'gauge', point.count ? point.sum! / point.count : 0),
+          series(`${point.name}.min`, 'gauge', point.min!),
+          series(`${point.name}.max`, 'gauge', point.max!),
+        ];
+    }
+  }
+
   private createDatadogPayload(entry: LogEntry): DatadogLogPayload {
     const tags = [
       ...this.tags,
@@ -115,6 +230,36 @@ export class DatadogTransport extends BaseTransport {
       payload.stack = entry.stack;
     }
 
+    if (entry.traceId) {
+      // Datadog correlates on the lower 64 bits of the trace ID, in decimal
+      payload.dd = {
+        trace_id: hexToDecimal(entry.traceId.slice(-16)),
+        ...(entry.spanId && { span_id: hexToDecimal(entry.spanId) }),
+      };
+    }
+
+    if (entry.count) {
+      payload.count = entry.count;
+      payload.first_seen = entry.firstSeen?.getTime();
+      payload.last_seen = entry.lastSeen?.getTime();
+    }
+
+    if (entry.history) {
+      payload.history = entry.history.map(item => ({
+        timestamp: item.timestamp.getTime(),
+        level: item.level,
+        message: item.message,
+        context: item.context,
+      }));
+    }
+
+    if (entry.breadcrumbs) {
+      payload.breadcrumbs = entry.breadcrumbs.map(breadcrumb => ({
+        ...breadcrumb,
+        timestamp: breadcrumb.timestamp.getTime(),
+      }));
+    }
+
     return payload;
   }
 }
\ No newline at end of file
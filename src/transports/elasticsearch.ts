@@ -0,0 +1,179 @@
+import { BaseTransport } from './base';
+import { TransportError } from '../utils/retry';
+import { internalConsole } from '../utils/internal-request';
+import { ElasticsearchConfig, LogEntry, TransportRequest } from '../types';
+
+const ECS_VERSION = '8.11.0';
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const resolveIndex = (pattern: string, timestamp: Date): string =>
+  pattern
+    .replace(/%Y/g, String(timestamp.getUTCFullYear()))
+    .replace(/%m/g, pad(timestamp.getUTCMonth() + 1))
+    .replace(/%d/g, pad(timestamp.getUTCDate()))
+    .replace(/%H/g, pad(timestamp.getUTCHours()));
+
+interface BulkItemResult {
+  status: number;
+  error?: { type?: string; reason?: string };
+}
+
+export class ElasticsearchTransport extends BaseTransport {
+  private readonly url: string;
+  private readonly index: string;
+  private readonly opType: 'index' | 'create';
+  private readonly headers: Record<string, string>;
+  private readonly service: Record<string, string>;
+
+  constructor(config: ElasticsearchConfig) {
+    super('elasticsearch', config);
+    this.url = config.url.replace(/\/_bulk\/?$/, '').replace(/\/$/, '');
+    this.index = config.index || 'hermes-trace-%Y.%m.%d';
+    this.opType = config.opType || 'index';
+    this.headers = {
+      'Content-Type': 'application/x-ndjson',
+      ...config.headers,
+    };
+    this.service = {
+      name: config.serviceName || 'hermes-trace',
+      ...(config.serviceVersion && { version: config.serviceVersion }),
+      ...(config.environment && { environment: config.environment }),
+    };
+
+    if (config.apiKey) {
+      this.headers['Authorization'] = `ApiKey ${config.apiKey}`;
+    } else if (config.basicAuth) {
+      const auth = btoa(`${config.basicAuth.username}:${config.basicAuth.password}`);
+      this.headers['Authorization'] = `Basic ${auth}`;
+    }
+  }
+
+  public log(entry: LogEntry): void {
+    if (!this.shouldLog(entry.level)) return;
+    this.addToBuffer(entry);
+  }
+
+  protected buildRequest(entries: LogEntry[]): TransportRequest {
+    // The bulk API requires a trailing newline after the last document
+    const body = entries
+      .map(entry => {
+        const action = { [this.opType]: { _index: resolveIndex(this.index, entry.timestamp) } };
+        return `${JSON.stringify(action)}\n${JSON.stringify(this.toDocument(entry))}\n`;
+      })
+      .join('');
+
+    return {
+      url: `${this.url}/_bulk`,
+      headers: this.headers,
+      body,
+    };
+  }
+
+  protected async flushEntries(entries: LogEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    const request = this.buildRequest(entries);
+    let response: Response;
+
+    try {
+      response = await this.sendHttp(request.url, {
+        method: 'POST',
+        headers: request.headers,
+        body: request.body,
+      });
+    } catch (error) {
+      throw new Error(`Failed to send logs to Elasticsearch: ${error}`);
+    }
+
+    if (!response.ok) {
+      throw TransportError.fromResponse('Elasticsearch', response);
+    }
+
+    await this.handleBulkResponse(entries, response);
+  }
+
+  /**
+   * A 200 bulk response can still reject individual documents. Rejections
+   * caused by load (429, 5xx) are retried on their own; the rest, such as
+   * mapping conflicts, would fail again and are dropped.
+   */
+  private async handleBulkResponse(entries: LogEntry[], response: Response): Promise<void> {
+    let result: { errors?: boolean; items?: Array<Record<string, BulkItemResult>> } | undefined;
+    try {
+      result = await response.json();
+    } catch (error) {
+      return;
+    }
+    if (!result?.errors || !Array.isArray(result.items)) return;
+
+    const retryable: LogEntry[] = [];
+    const rejected: BulkItemResult[] = [];
+
+    result.items.forEach((item, index) => {
+      const outcome = item[this.opType] || Object.values(item)[0];
+      if (!outcome || !entries[index] || (outcome.status >= 200 && outcome.status < 300)) return;
+
+      if (outcome.status === 429 || outcome.status >= 500) {
+        retryable.push(entries[index]);
+      } else {
+        rejected.push(outcome);
+      }
+    });
+
+    if (rejected.length > 0) {
+      const reason = rejected[0].error?.reason || rejected[0].error?.type || `status ${rejected[0].status}`;
+      internalConsole.error(`Dropping ${rejected.length} entries rejected by Elasticsearch: ${reason}`);
+    }
+
+    if (retryable.length > 0) {
+      const error = new TransportError(
+        `Elasticsearch rejected ${retryable.length} of ${entries.length} documents`
+      );
+      error.undelivered = retryable;
+      throw error;
+    }
+  }
+
+  private toDocument(entry: LogEntry): Record<string, any> {
+    const hermes = {
+      context: entry.context,
+      session_id: entry.sessionId,
+      parent_span_id: entry.parentSpanId,
+      ...(entry.count && {
+        count: entry.count,
+        first_seen: entry.firstSeen,
+        last_seen: entry.lastSeen,
+      }),
+      history: entry.history?.map(item => ({
+        timestamp: item.timestamp,
+        level: item.level,
+        message: item.message,
+        context: item.context,
+      })),
+      breadcrumbs: entry.breadcrumbs,
+    };
+
+    return {
+      '@timestamp': entry.timestamp.toISOString(),
+      message: entry.message,
+      log: { level: entry.level },
+      ecs: { version: ECS_VERSION },
+      service: this.service,
+      ...(entry.tags && entry.tags.length > 0 && { tags: entry.tags }),
+      ...(entry.traceId && { trace: { id: entry.traceId } }),
+      ...(entry.spanId && { span: { id: entry.spanId } }),
+      ...(entry.userId && { user: { id: entry.userId } }),
+      ...(entry.url && { url: { full: entry.url } }),
+      ...(entry.userAgent && { user_agent: { original: entry.userAgent } }),
+      ...((entry.error || entry.stack) && {
+        error: {
+          type: entry.error?.name,
+          message: entry.error?.message,
+          stack_trace: entry.error?.stack || entry.stack,
+        },
+      }),
+      hermes,
+    };
+  }
+}
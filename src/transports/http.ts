@@ -0,0 +1,107 @@
+import { BaseTransport } from './base';
+import { TransportError } from '../utils/retry';
+import { serializeEntry } from '../utils/offline-queue';
+import { HttpTransportConfig, LogEntry, TransportConfig, TransportRequest } from '../types';
+
+const CONTENT_TYPES: Record<string, string> = {
+  json: 'application/json',
+  ndjson: 'application/x-ndjson',
+};
+
+/**
+ * Ships entries to any HTTP endpoint. Covers most in-house collectors without
+ * a dedicated transport: batches are split by entry count and body size, and
+ * headers can come from a provider for short-lived auth tokens.
+ */
+export class HttpTransport extends BaseTransport {
+  private readonly options: Required<Omit<HttpTransportConfig, keyof TransportConfig>>;
+  // Unload delivery can't await the header provider, so it reuses the last resolved headers
+  private resolvedHeaders?: Record<string, string>;
+
+  constructor(config: HttpTransportConfig) {
+    super(config.name || 'http', config);
+    this.options = {
+      name: config.name || 'http',
+      method: 'POST',
+      headers: {},
+      serializer: 'json',
+      contentType: typeof config.serializer === 'function' ? 'text/plain' : CONTENT_TYPES[config.serializer || 'json'],
+      maxBatchSize: config.bufferSize || 100,
+      maxBatchBytes: 1024 * 1024,
+      isSuccess: (response: Response) => response.ok,
+      ...config,
+    };
+
+    if (typeof this.options.headers !== 'function') {
+      this.resolvedHeaders = this.options.headers;
+    }
+  }
+
+  public log(entry: LogEntry): void {
+    if (!this.shouldLog(entry.level)) return;
+    this.addToBuffer(entry);
+  }
+
+  public flushOnUnload(): void {
+    // Until the provider has resolved once, a beacon would go out without auth
+    if (!this.resolvedHeaders) {
+      this.flush();
+      return;
+    }
+    super.flushOnUnload();
+  }
+
+  protected buildRequest(entries: LogEntry[]): TransportRequest {
+    return {
+      url: this.options.url,
+      method: this.options.method,
+      headers: {
+        'Content-Type': this.options.contentType,
+        ...this.resolvedHeaders,
+      },
+      body: this.serialize(entries),
+    };
+  }
+
+  protected async flushEntries(entries: LogEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    const batches = this.splitBatches(entries, this.options.maxBatchSize, this.options.maxBatchBytes, batch => this.serialize(batch));
+
+    await this.sendBatches(batches, batch => this.sendBatch(batch));
+  }
+
+  private async sendBatch(entries: LogEntry[]): Promise<void> {
+    if (typeof this.options.headers === 'function') {
+      this.resolvedHeaders = await this.options.headers();
+    }
+
+    const request = this.buildRequest(entries);
+    const response = await this.sendHttp(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+    });
+
+    if (!this.options.isSuccess(response)) {
+      // A 2xx rejected by the predicate has no error status, so it stays retryable
+      throw response.ok
+        ? new TransportError(`HTTP transport rejected response: ${response.status} ${response.statusText}`)
+        : TransportError.fromResponse('HTTP', response);
+    }
+  }
+
+  private serialize(entries: LogEntry[]): string {
+    const { serializer } = this.options;
+
+    if (typeof serializer === 'function') {
+      return serializer(entries);
+    }
+
+    if (serializer === 'ndjson') {
+      return entries.map(entry => JSON.stringify(serializeEntry(entry))).join('\n') + '\n';
+    }
+
+    return JSON.stringify(entries.map(serializeEntry));
+  }
+}
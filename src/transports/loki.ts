@@ -1,31 +1,104 @@
 import { BaseTransport } from './base';
-import { LogEntry, LokiConfig } from '../types';
+import { TransportError } from '../utils/retry';
+import { gzip, supportsGzip } from '../utils/compression';
+import { ProtoWriter } from '../utils/protobuf';
+import { snappyCompress } from '../utils/snappy';
+import { internalConsole } from '../utils/internal-request';
+import { LogEntry, LokiConfig, LokiEncoding, LokiLabelField, TransportRequest } from '../types';
+
+type LokiValue = [string, string] | [string, string, Record<string, string>];
 
 interface LokiStream {
   stream: Record<string, string>;
-  values: [string, string][];
+  values: LokiValue[];
 }
 
 interface LokiPayload {
   streams: LokiStream[];
 }
 
+const escapeLabelValue = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+// https://github.com/grafana/loki/blob/main/pkg/push/push.proto
+const encodePushRequest = (payload: LokiPayload): Uint8Array => {
+  const request = new ProtoWriter();
+
+  payload.streams.forEach(({ stream, values }) => {
+    const labels = `{${Object.keys(stream).map(name => `${name}="${escapeLabelValue(stream[name])}"`).join(', ')}}`;
+    const adapter = new ProtoWriter().string(1, labels);
+
+    values.forEach(([timestamp, line, metadata]) => {
+      // Nanosecond timestamps exceed Number precision, so split the millisecond part off the string
+      const ms = Number(timestamp.slice(0, -6));
+      const entry = new ProtoWriter()
+        .message(1, new ProtoWriter().uint(1, Math.floor(ms / 1000)).uint(2, (ms % 1000) * 1000000))
+        .string(2, line);
+
+      Object.keys(metadata || {}).forEach(name => {
+        entry.message(3, new ProtoWriter().string(1, name).string(2, metadata![name]));
+      });
+      adapter.message(2, entry);
+    });
+
+    request.message(1, adapter);
+  });
+
+  return request.finish();
+};
+
+const labelName = (field: LokiLabelField): string =>
+  field.replace(/^context\./, '').replace(/[^a-zA-Z0-9_]/g, '_').replace(/^(?=\d)/, '_');
+
+const readField = (entry: LogEntry, field: LokiLabelField): string | undefined => {
+  switch (field) {
+    case 'level':
+      return entry.level;
+    case 'tags':
+      return entry.tags && entry.tags.length > 0 ? entry.tags.join(',') : undefined;
+    case 'userId':
+      return entry.userId;
+    case 'sessionId':
+      return entry.sessionId;
+    case 'url':
+      try {
+        return entry.url ? new URL(entry.url).pathname : undefined;
+      } catch (error) {
+        return undefined;
+      }
+    default: {
+      const value = entry.context?.[field.slice('context.'.length)];
+      return value === undefined || value === null || typeof value === 'object' ? undefined : String(value);
+    }
+  }
+};
+
 export class LokiTransport extends BaseTransport {
   private readonly url: string;
   private readonly labels: Record<string, string>;
   private readonly headers: Record<string, string>;
+  private readonly labelFields: LokiLabelField[];
+  private readonly structuredMetadata: boolean;
+  private readonly maxLabelValues: number;
+  private readonly encoding: LokiEncoding;
+  private labelValues = new Map<string, Set<string>>();
+  private demotedLabels = new Set<string>();
 
   constructor(config: LokiConfig) {
     super('loki', config);
     this.url = config.url;
     this.labels = {
       service: 'hermes-trace',
-      level: 'info',
       ...config.labels,
     };
-    
+    this.labelFields = config.labelFields || ['level'];
+    this.structuredMetadata = config.structuredMetadata || false;
+    this.maxLabelValues = config.maxLabelValues ?? 100;
+    this.encoding = config.encoding || 'json';
+
     this.headers = {
       'Content-Type': 'application/json',
+      ...(config.tenantId && { 'X-Scope-OrgID': config.tenantId }),
       ...config.headers,
     };
 
@@ -40,38 +113,104 @@ export class LokiTransport extends BaseTransport {
     this.addToBuffer(entry);
   }
 
+  protected buildRequest(entries: LogEntry[]): TransportRequest {
+    // Unload delivery can't wait for compression, so this is always plain JSON
+    return {
+      url: `${this.url}/loki/api/v1/push`,
+      headers: this.headers,
+      body: JSON.stringify(this.buildPayload(entries)),
+    };
+  }
+
   protected async flushEntries(entries: LogEntry[]): Promise<void> {
     if (entries.length === 0) return;
 
-    const streams = this.groupEntriesByLabels(entries);
-    const payload: LokiPayload = { streams };
+    const payload = this.buildPayload(entries);
 
     try {
-      const response = await fetch(`${this.url}/loki/api/v1/push`, {
+      const response = await this.sendHttp(`${this.url}/loki/api/v1/push`, {
         method: 'POST',
-        headers: this.headers,
-        body: JSON.stringify(payload),
+        ...(await this.encodePayload(payload)),
       });
 
       if (!response.ok) {
-        throw new Error(`Loki transport failed: ${response.status} ${response.statusText}`);
+        throw TransportError.fromResponse('Loki', response);
       }
     } catch (error) {
+      if (error instanceof TransportError) throw error;
       throw new Error(`Failed to send logs to Loki: ${error}`);
     }
   }
 
+  private async encodePayload(payload: LokiPayload): Promise<{ headers: Record<string, string>; body: string | Uint8Array }> {
+    // The protobuf writer needs TextEncoder for UTF-8 strings
+    if (this.encoding === 'protobuf' && typeof TextEncoder !== 'undefined') {
+      return {
+        headers: { ...this.headers, 'Content-Type': 'application/x-protobuf' },
+        body: snappyCompress(encodePushRequest(payload)),
+      };
+    }
+
+    if (this.encoding === 'gzip' && supportsGzip()) {
+      return {
+        headers: { ...this.headers, 'Content-Encoding': 'gzip' },
+        body: await gzip(JSON.stringify(payload)),
+      };
+    }
+
+    return { headers: this.headers, body: JSON.stringify(payload) };
+  }
+
+  private buildPayload(entries: LogEntry[]): LokiPayload {
+    return { streams: this.groupEntriesByLabels(entries) };
+  }
+
+  /**
+   * Records a label value and reports whether the label may stay on the
+   * stream. Every distinct label set is a separate Loki stream, so a field
+   * that keeps producing new values (user IDs, paths) is moved to the log
+   * line or structured metadata for the rest of this transport's life.
+   */
+  private canUseLabel(name: string, value: string): boolean {
+    if (this.maxLabelValues <= 0) return true;
+    if (this.demotedLabels.has(name)) return false;
+
+    const seen = this.labelValues.get(name) || new Set<string>();
+    this.labelValues.set(name, seen);
+    if (seen.has(value)) return true;
+
+    if (seen.size >= this.maxLabelValues) {
+      this.demotedLabels.add(name);
+      this.labelValues.delete(name);
+      internalConsole.warn(`Loki label ${name} exceeded ${this.maxLabelValues} distinct values and is no longer used as a stream label`);
+      return false;
+    }
+
+    seen.add(value);
+    return true;
+  }
+
   private groupEntriesByLabels(entries: LogEntry[]): LokiStream[] {
     const streamMap = new Map<string, LokiStream>();
 
     entries.forEach(entry => {
-      const streamLabels = {
-        ...this.labels,
-        level: entry.level,
-        ...(entry.tags && { tags: entry.tags.join(',') }),
-        ...(entry.userId && { userId: entry.userId }),
-        ...(entry.url && { url: new URL(entry.url).pathname }),
-      };
+      const streamLabels = { ...this.labels };
+      const demoted: Record<string, string> = {};
+      const labeled = new Set<string>();
+
+      this.labelFields.forEach(field => {
+        const value = readField(entry, field);
+        if (value === undefined || value === '') return;
+
+        const name = labelName(field);
+        if (this.canUseLabel(name, value)) {
+          streamLabels[name] = value;
+          labeled.add(field);
+        } else if (this.structuredMetadata && field.startsWith('context.')) {
+          // Context fields are already part of the log line
+          demoted[name] = value;
+        }
+      });
 
       const streamKey = JSON.stringify(streamLabels);
       
@@ -82,20 +221,51 @@ export class LokiTransport extends BaseTransport {
         });
       }
 
+      // Entry fields that didn't become stream labels still have to reach Loki
+      const fields: Record<string, string | undefined> = {
+        level: entry.level,
+        tags: entry.tags && entry.tags.length > 0 ? entry.tags.join(',') : undefined,
+        userId: entry.userId,
+        sessionId: entry.sessionId,
+        url: entry.url,
+        traceId: entry.traceId,
+        spanId: entry.spanId,
+      };
+      const unlabeled = Object.keys(fields).reduce<Record<string, string>>((all, key) => {
+        const value = fields[key];
+        return value && !labeled.has(key) ? { ...all, [key]: value } : all;
+      }, {});
+      // Structured metadata only takes string values, so only these flat fields move there
+      const metadata = this.structuredMetadata ? { ...demoted, ...unlabeled } : undefined;
+
       const logLine = JSON.stringify({
         message: entry.message,
+        ...(!metadata && unlabeled),
         context: entry.context,
-        sessionId: entry.sessionId,
+        parentSpanId: entry.parentSpanId,
         userAgent: entry.userAgent,
         stack: entry.stack,
+        count: entry.count,
+        firstSeen: entry.firstSeen?.toISOString(),
+        lastSeen: entry.lastSeen?.toISOString(),
+        history: entry.history?.map(item => ({
+          timestamp: item.timestamp.toISOString(),
+          level: item.level,
+          message: item.message,
+          context: item.context,
+        })),
+        breadcrumbs: entry.breadcrumbs?.map(breadcrumb => ({
+          ...breadcrumb,
+          timestamp: breadcrumb.timestamp.toISOString(),
+        })),
       });
 
-      streamMap.get(streamKey)!.values.push([
-        (entry.timestamp.getTime() * 1000000).toString(),
-        logLine,
-      ]);
+      const timestamp = (entry.timestamp.getTime() * 1000000).toString();
+      streamMap.get(streamKey)!.values.push(
+        metadata && Object.keys(metadata).length > 0 ? [timestamp, logLine, metadata] : [timestamp, logLine]
+      );
     });
 
     return Array.from(streamMap.values());
   }
-}
\ No newline at end of file
+}
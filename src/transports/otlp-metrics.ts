@@ -0,0 +1,38 @@
+import { TransportError } from '../utils/retry';
+import { toOtlpMetrics } from '../utils/otlp';
+import { runInternal } from '../utils/internal-request';
+import { MetricPoint, MetricsExporter, OtlpMetricsExporterConfig } from '../types';
+
+/**
+ * Sends aggregated metrics as OTLP/HTTP JSON, e.g. to an OpenTelemetry
+ * Collector's /v1/metrics endpoint or any service that accepts that shape.
+ */
+export class OtlpMetricsExporter implements MetricsExporter {
+  public readonly name = 'otlp-metrics';
+  private readonly config: Required<OtlpMetricsExporterConfig>;
+
+  constructor(config: OtlpMetricsExporterConfig) {
+    this.config = {
+      headers: {},
+      resource: {},
+      ...config,
+    };
+  }
+
+  public async sendMetrics(metrics: MetricPoint[]): Promise<void> {
+    if (metrics.length === 0) return;
+
+    const response = await runInternal(() => fetch(this.config.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...this.config.headers,
+      },
+      body: JSON.stringify(toOtlpMetrics(metrics, this.config.resource)),
+    }));
+
+    if (!response.ok) {
+      throw TransportError.fromResponse('OTLP metrics', response);
+    }
+  }
+}
@@ -0,0 +1,147 @@
+import { BaseTransport } from './base';
+import { TransportError } from '../utils/retry';
+import { toOtlpAttributes, toOtlpMetrics, toUnixNano, toAnyValue } from '../utils/otlp';
+import { LogEntry, LogLevel, OtlpConfig, TransportRequest, MetricPoint } from '../types';
+
+// https://opentelemetry.io/docs/specs/otel/logs/data-model/#field-severitynumber
+const SEVERITY: Record<LogLevel, { number: number; text: string }> = {
+  [LogLevel.DEBUG]: { number: 5, text: 'DEBUG' },
+  [LogLevel.INFO]: { number: 9, text: 'INFO' },
+  [LogLevel.WARN]: { number: 13, text: 'WARN' },
+  [LogLevel.ERROR]: { number: 17, text: 'ERROR' },
+  [LogLevel.FATAL]: { number: 21, text: 'FATAL' },
+};
+
+interface OtlpLogRecord {
+  timeUnixNano: string;
+  observedTimeUnixNano: string;
+  severityNumber: number;
+  severityText: string;
+  body: Record<string, any>;
+  attributes: Array<{ key: string; value: Record<string, any> }>;
+  traceId?: string;
+  spanId?: string;
+}
+
+export class OtlpTransport extends BaseTransport {
+  private readonly url: string;
+  private readonly headers: Record<string, string>;
+  private readonly resource: Record<string, string>;
+
+  constructor(config: OtlpConfig) {
+    super('otlp', config);
+    // Accept either the collector base URL or the full /v1/logs endpoint
+    this.url = config.url.replace(/\/v1\/logs\/?$/, '').replace(/\/$/, '');
+    this.headers = {
+      'Content-Type': 'application/json',
+      ...config.headers,
+    };
+    this.resource = {
+      'service.name': config.serviceName || 'hermes-trace',
+      ...(config.serviceVersion && { 'service.version': config.serviceVersion }),
+      ...(config.environment && { 'deployment.environment': config.environment }),
+      'telemetry.sdk.name': 'hermes-trace',
+      'telemetry.sdk.language': 'webjs',
+      ...config.resourceAttributes,
+    };
+  }
+
+  public log(entry: LogEntry): void {
+    if (!this.shouldLog(entry.level)) return;
+    this.addToBuffer(entry);
+  }
+
+  public async sendMetrics(metrics: MetricPoint[]): Promise<void> {
+    if (metrics.length === 0) return;
+
+    const response = await this.sendHttp(`${this.url}/v1/metrics`, {
+      method: 'POST',
+      headers: this.headers,
+      body: JSON.stringify(toOtlpMetrics(metrics, this.resource)),
+    });
+
+    if (!response.ok) {
+      throw TransportError.fromResponse('OTLP', response);
+    }
+  }
+
+  protected buildRequest(entries: LogEntry[]): TransportRequest {
+    const payload = {
+      resourceLogs: [{
+        resource: { attributes: toOtlpAttributes(this.resource) },
+        scopeLogs: [{
+          scope: { name: 'hermes-trace' },
+          logRecords: entries.map(entry => this.toLogRecord(entry)),
+        }],
+      }],
+    };
+
+    return {
+      url: `${this.url}/v1/logs`,
+      headers: this.headers,
+      body: JSON.stringify(payload),
+    };
+  }
+
+  protected async flushEntries(entries: LogEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    const request = this.buildRequest(entries);
+
+    try {
+      const response = await this.sendHttp(request.url, {
+        method: 'POST',
+        headers: request.headers,
+        body: request.body,
+      });
+
+      if (!response.ok) {
+        throw TransportError.fromResponse('OTLP', response);
+      }
+    } catch (error) {
+      if (error instanceof TransportError) throw error;
+      throw new Error(`Failed to send logs to OTLP endpoint: ${error}`);
+    }
+  }
+
+  private toLogRecord(entry: LogEntry): OtlpLogRecord {
+    const severity = SEVERITY[entry.level];
+    const attributes: Record<string, any> = {
+      ...entry.context,
+      ...(entry.tags && entry.tags.length > 0 && { tags: entry.tags }),
+      'session.id': entry.sessionId,
+      'user.id': entry.userId,
+      'url.full': entry.url,
+      'user_agent.original': entry.userAgent,
+      ...(entry.error && {
+        'exception.type': entry.error.name,
+        'exception.message': entry.error.message,
+      }),
+      'exception.stacktrace': entry.error?.stack || entry.stack,
+      ...(entry.count && {
+        'log.count': entry.count,
+        'log.first_seen': entry.firstSeen,
+        'log.last_seen': entry.lastSeen,
+      }),
+      parent_span_id: entry.parentSpanId,
+      history: entry.history?.map(item => ({
+        timestamp: item.timestamp,
+        level: item.level,
+        message: item.message,
+        context: item.context,
+      })),
+      breadcrumbs: entry.breadcrumbs,
+    };
+
+    return {
+      timeUnixNano: toUnixNano(entry.timestamp),
+      observedTimeUnixNano: toUnixNano(new Date()),
+      severityNumber: severity.number,
+      severityText: severity.text,
+      body: toAnyValue(entry.message),
+      attributes: toOtlpAttributes(attributes),
+      ...(entry.traceId && { traceId: entry.traceId }),
+      ...(entry.spanId && { spanId: entry.spanId }),
+    };
+  }
+}
@@ -1,21 +1,71 @@
 import { BaseTransport } from './base';
-import { LogEntry, SentryConfig, LogLevel } from '../types';
+import { TransportError } from '../utils/retry';
+import { generateTraceId } from '../utils/trace-context';
+import { parseStack } from '../utils/stack-parser';
+import { createEventEnvelope, parseDsn, SentryDsn } from '../utils/sentry-envelope';
+import { internalConsole } from '../utils/internal-request';
+import { LogEntry, SentryConfig, LogLevel, Breadcrumb, SentryHub, SentryMode } from '../types';
+
+// https://docs.sentry.io/platforms/javascript/enriching-events/tags/
+const MAX_TAG_KEY_LENGTH = 32;
+const MAX_TAG_VALUE_LENGTH = 200;
+
+/** Turns entry tags into Sentry tags: `key:value` sets a value, a bare tag is set to 'true'. */
+const toSentryTags = (tags: string[]): Record<string, string> =>
+  tags.reduce<Record<string, string>>((all, tag) => {
+    const separator = tag.indexOf(':');
+    const key = (separator > 0 ? tag.slice(0, separator) : tag)
+      .trim()
+      .replace(/[^a-zA-Z0-9_.:-]/g, '_')
+      .slice(0, MAX_TAG_KEY_LENGTH);
+    const value = separator > 0 ? tag.slice(separator + 1).trim() : 'true';
+
+    if (key && value) {
+      all[key] = value.slice(0, MAX_TAG_VALUE_LENGTH);
+    }
+    return all;
+  }, {});
+
+interface SentryEventData {
+  level: string;
+  tags: Record<string, string>;
+  user?: { id: string };
+  contexts: Record<string, Record<string, any>>;
+  breadcrumbs: Record<string, any>[];
+  fingerprint?: string[];
+}
 
 export class SentryTransport extends BaseTransport {
-  private sentry: any = null;
+  private sentry: SentryHub | null = null;
   private readonly dsn?: string;
   private readonly environment?: string;
   private readonly release?: string;
   private readonly sampleRate: number;
+  private readonly mode: SentryMode;
+  private readonly envelopeDsn: SentryDsn | null = null;
+  private readonly fingerprint?: (entry: LogEntry) => string[] | undefined;
+  private ready: Promise<void> = Promise.resolve();
 
   constructor(config: SentryConfig) {
     super('sentry', config);
     this.dsn = config.dsn;
     this.environment = config.environment;
     this.release = config.release;
-    this.sampleRate = config.sampleRate || 1.0;
-    
-    this.initializeSentry();
+    this.sampleRate = config.sampleRate ?? 1.0;
+    this.mode = config.mode || 'sdk';
+    this.fingerprint = config.fingerprint;
+
+    if (this.mode === 'envelope') {
+      this.envelopeDsn = parseDsn(this.dsn);
+      if (!this.envelopeDsn) {
+        internalConsole.warn('Sentry transport in envelope mode needs a valid DSN');
+      }
+    } else if (config.hub) {
+      // The app owns the Sentry setup; calling init here would replace its client
+      this.sentry = config.hub;
+    } else {
+      this.ready = this.initializeSentry();
+    }
   }
 
   private async initializeSentry(): Promise<void> {
@@ -24,69 +74,206 @@ export class SentryTransport extends BaseTransport {
         // Dynamic import with error handling for optional dependency
         const sentryModule = await import('@sentry/browser').catch(() => null);
         if (!sentryModule) {
-          console.warn('Sentry transport configured but @sentry/browser not installed');
+          internalConsole.warn('Sentry transport configured but @sentry/browser not installed');
           return;
         }
-        
-        const { init, captureException, captureMessage, withScope, setTag, setContext } = sentryModule;
-        this.sentry = { init, captureException, captureMessage, withScope, setTag, setContext };
-        
+
+        const { init, captureException, captureMessage, withScope } = sentryModule;
+        this.sentry = { captureException, captureMessage, withScope };
+
         if (this.dsn) {
           init({
             dsn: this.dsn,
             environment: this.environment,
             release: this.release,
             sampleRate: this.sampleRate,
-            beforeSend: (event: any) => {
-              if (Math.random() > this.sampleRate) {
-                return null;
-              }
-              return event;
-            },
           });
         }
       }
     } catch (error) {
-      console.warn('Sentry not available:', error);
+      internalConsole.warn('Sentry not available:', error);
     }
   }
 
   public log(entry: LogEntry): void {
-    if (!this.shouldLog(entry.level) || !this.sentry) return;
-    
-    this.sentry.withScope((scope: any) => {
-      if (entry.tags) {
-        entry.tags.forEach(tag => scope.setTag('custom_tag', tag));
-      }
-      
-      if (entry.userId) {
-        scope.setUser({ id: entry.userId });
-      }
-      
-      if (entry.context) {
-        scope.setContext('additional_context', entry.context);
-      }
-      
-      if (entry.url) {
-        scope.setTag('url', entry.url);
+    if (!this.shouldLog(entry.level)) return;
+
+    // Without the SDK there is no client to apply sampleRate, so sample here
+    if (this.mode === 'envelope' && (!this.envelopeDsn || Math.random() >= this.sampleRate)) return;
+
+    this.addToBuffer(entry);
+  }
+
+  protected async flushEntries(entries: LogEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    if (this.mode === 'envelope') {
+      // An envelope carries at most one event
+      await this.sendBatches(entries.map(entry => [entry]), ([entry]) => this.sendEnvelope(entry));
+      return;
+    }
+
+    // Entries logged while @sentry/browser is still loading wait here instead of being dropped
+    await this.ready;
+    const sentry = this.sentry;
+    if (!sentry) return;
+
+    entries.forEach(entry => this.capture(sentry, entry));
+  }
+
+  private capture(sentry: SentryHub, entry: LogEntry): void {
+    const data = this.toEventData(entry);
+
+    sentry.withScope((scope: any) => {
+      Object.keys(data.tags).forEach(key => scope.setTag(key, data.tags[key]));
+
+      if (data.user) {
+        scope.setUser(data.user);
       }
-      
-      if (entry.sessionId) {
-        scope.setTag('session_id', entry.sessionId);
+
+      Object.keys(data.contexts).forEach(name => scope.setContext(name, data.contexts[name]));
+      data.breadcrumbs.forEach(breadcrumb => scope.addBreadcrumb(breadcrumb));
+      scope.setLevel(data.level);
+
+      if (data.fingerprint) {
+        scope.setFingerprint(data.fingerprint);
       }
-      
-      scope.setLevel(this.mapLogLevelToSentryLevel(entry.level));
-      
+
       if (entry.error) {
-        this.sentry.captureException(entry.error);
+        sentry.captureException(entry.error);
       } else {
-        this.sentry.captureMessage(entry.message);
+        sentry.captureMessage(entry.message);
       }
     });
   }
 
-  protected async flushEntries(entries: LogEntry[]): Promise<void> {
-    entries.forEach(entry => this.log(entry));
+  private async sendEnvelope(entry: LogEntry): Promise<void> {
+    const event = this.toEnvelopeEvent(entry);
+
+    try {
+      const response = await this.sendHttp(this.envelopeDsn!.envelopeUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/plain;charset=UTF-8' },
+        body: createEventEnvelope(event, this.dsn!),
+      });
+
+      if (!response.ok) {
+        throw TransportError.fromResponse('Sentry', response);
+      }
+    } catch (error) {
+      if (error instanceof TransportError) throw error;
+      throw new Error(`Failed to send event to Sentry: ${error}`);
+    }
+  }
+
+  /** Scope data shared by both modes: applied to a scope in SDK mode, copied onto the event in envelope mode. */
+  private toEventData(entry: LogEntry): SentryEventData {
+    const { fingerprint: contextFingerprint, ...context } = entry.context || {};
+    const tags = toSentryTags(entry.tags || []);
+    const contexts: Record<string, Record<string, any>> = {};
+
+    if (Object.keys(context).length > 0) {
+      contexts['additional_context'] = context;
+    }
+
+    if (entry.traceId) {
+      tags['trace_id'] = entry.traceId;
+      contexts['trace'] = {
+        trace_id: entry.traceId,
+        span_id: entry.spanId,
+        parent_span_id: entry.parentSpanId,
+      };
+    }
+
+    if (entry.count) {
+      contexts['occurrences'] = {
+        count: entry.count,
+        firstSeen: entry.firstSeen?.toISOString(),
+        lastSeen: entry.lastSeen?.toISOString(),
+      };
+    }
+
+    if (entry.history) {
+      contexts['history'] = {
+        entries: entry.history.map(item => ({
+          timestamp: item.timestamp.toISOString(),
+          level: item.level,
+          message: item.message,
+          context: item.context,
+        })),
+      };
+    }
+
+    // The page URL is not a tag: it would create a tag value per page. The SDK and
+    // the envelope's request interface carry it instead.
+    if (entry.sessionId) {
+      tags['session_id'] = entry.sessionId;
+    }
+
+    const fingerprint = Array.isArray(contextFingerprint) && contextFingerprint.length > 0
+      ? contextFingerprint.map(String)
+      : this.fingerprint?.(entry);
+
+    return {
+      level: this.mapLogLevelToSentryLevel(entry.level),
+      tags,
+      ...(entry.userId && { user: { id: entry.userId } }),
+      contexts,
+      breadcrumbs: (entry.breadcrumbs || []).map(breadcrumb => this.toSentryBreadcrumb(breadcrumb)),
+      ...(fingerprint && fingerprint.length > 0 && { fingerprint }),
+    };
+  }
+
+  private toEnvelopeEvent(entry: LogEntry): Record<string, any> & { event_id: string } {
+    const data = this.toEventData(entry);
+    // Sentry lists frames oldest call first
+    const frames = parseStack(entry.error?.stack || entry.stack).reverse();
+
+    return {
+      event_id: generateTraceId(),
+      timestamp: entry.timestamp.getTime() / 1000,
+      platform: 'javascript',
+      logger: 'hermes-trace',
+      level: data.level,
+      ...(this.environment && { environment: this.environment }),
+      ...(this.release && { release: this.release }),
+      message: { formatted: entry.message },
+      ...(entry.error && {
+        exception: {
+          values: [{
+            type: entry.error.name || 'Error',
+            value: entry.error.message,
+            ...(frames.length > 0 && { stacktrace: { frames } }),
+          }],
+        },
+      }),
+      tags: data.tags,
+      ...(data.fingerprint && { fingerprint: data.fingerprint }),
+      ...(data.user && { user: data.user }),
+      contexts: data.contexts,
+      ...(data.breadcrumbs.length > 0 && { breadcrumbs: { values: data.breadcrumbs } }),
+      ...((entry.url || entry.userAgent) && {
+        request: {
+          ...(entry.url && { url: entry.url }),
+          ...(entry.userAgent && { headers: { 'User-Agent': entry.userAgent } }),
+        },
+      }),
+    };
+  }
+
+  private toSentryBreadcrumb(breadcrumb: Breadcrumb): Record<string, any> {
+    const data = breadcrumb.type === 'http' && breadcrumb.data
+      ? { ...breadcrumb.data, status_code: breadcrumb.data.status }
+      : breadcrumb.data;
+
+    return {
+      type: breadcrumb.type === 'http' || breadcrumb.type === 'navigation' ? breadcrumb.type : 'default',
+      category: breadcrumb.category || breadcrumb.type,
+      message: breadcrumb.message,
+      level: breadcrumb.level ? this.mapLogLevelToSentryLevel(breadcrumb.level) : 'info',
+      timestamp: breadcrumb.timestamp.getTime() / 1000,
+      ...(data && { data }),
+    };
   }
 
   private mapLogLevelToSentryLevel(level: LogLevel): string {
@@ -105,4 +292,4 @@ export class SentryTransport extends BaseTransport {
         return 'info';
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,110 @@
+import { BaseTransport } from './base';
+import { TransportError } from '../utils/retry';
+import { LogEntry, SplunkHecConfig, TransportRequest } from '../types';
+
+interface HecEvent {
+  time: number;
+  host?: string;
+  source: string;
+  sourcetype: string;
+  index?: string;
+  event: Record<string, any>;
+  fields?: Record<string, string>;
+}
+
+export class SplunkHecTransport extends BaseTransport {
+  private readonly url: string;
+  private readonly headers: Record<string, string>;
+  private readonly metadata: Omit<HecEvent, 'time' | 'event'>;
+
+  constructor(config: SplunkHecConfig) {
+    super('splunk', config);
+    // Accept either the Splunk base URL or the full event endpoint
+    this.url = `${config.url.replace(/\/services\/collector(\/event)?\/?$/, '').replace(/\/$/, '')}/services/collector/event`;
+    this.headers = {
+      'Content-Type': 'application/json',
+      'Authorization': `Splunk ${config.token}`,
+      ...(config.channel && { 'X-Splunk-Request-Channel': config.channel }),
+    };
+
+    const host = config.host || (typeof window !== 'undefined' ? window.location?.hostname : undefined);
+    this.metadata = {
+      ...(host && { host }),
+      source: config.source || 'hermes-trace',
+      sourcetype: config.sourcetype || '_json',
+      ...(config.index && { index: config.index }),
+      ...(config.fields && { fields: config.fields }),
+    };
+  }
+
+  public log(entry: LogEntry): void {
+    if (!this.shouldLog(entry.level)) return;
+    this.addToBuffer(entry);
+  }
+
+  protected buildRequest(entries: LogEntry[]): TransportRequest {
+    // HEC takes a batch as concatenated event objects rather than a JSON array
+    return {
+      url: this.url,
+      headers: this.headers,
+      body: entries.map(entry => JSON.stringify(this.toEvent(entry))).join('\n'),
+    };
+  }
+
+  protected async flushEntries(entries: LogEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    const request = this.buildRequest(entries);
+
+    try {
+      const response = await this.sendHttp(request.url, {
+        method: 'POST',
+        headers: request.headers,
+        body: request.body,
+      });
+
+      if (!response.ok) {
+        throw TransportError.fromResponse('Splunk HEC', response);
+      }
+    } catch (error) {
+      if (error instanceof TransportError) throw error;
+      throw new Error(`Failed to send logs to Splunk HEC: ${error}`);
+    }
+  }
+
+  private toEvent(entry: LogEntry): HecEvent {
+    return {
+      // HEC expects epoch seconds; the fraction keeps millisecond ordering
+      time: entry.timestamp.getTime() / 1000,
+      ...this.metadata,
+      event: {
+        message: entry.message,
+        level: entry.level,
+        ...(entry.tags && entry.tags.length > 0 && { tags: entry.tags }),
+        sessionId: entry.sessionId,
+        userId: entry.userId,
+        traceId: entry.traceId,
+        spanId: entry.spanId,
+        parentSpanId: entry.parentSpanId,
+        url: entry.url,
+        userAgent: entry.userAgent,
+        context: entry.context,
+        ...(entry.error && {
+          error: {
+            name: entry.error.name,
+            message: entry.error.message,
+            stack: entry.error.stack,
+          },
+        }),
+        stack: entry.stack,
+        ...(entry.count && {
+          count: entry.count,
+          firstSeen: entry.firstSeen,
+          lastSeen: entry.lastSeen,
+        }),
+        history: entry.history,
+        breadcrumbs: entry.breadcrumbs,
+      },
+    };
+  }
+}
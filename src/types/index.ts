@@ -18,14 +18,97 @@ export interface LogEntry {
   url?: string;
   userAgent?: string;
   stack?: string;
+  history?: LogEntry[];
+  count?: number;
+  firstSeen?: Date;
+  lastSeen?: Date;
+  traceId?: string;
+  spanId?: string;
+  parentSpanId?: string;
+  breadcrumbs?: Breadcrumb[];
 }
 
+export type BreadcrumbType = 'click' | 'navigation' | 'console' | 'http' | 'custom';
+
+export interface Breadcrumb {
+  type: BreadcrumbType;
+  message: string;
+  timestamp: Date;
+  category?: string;
+  level?: LogLevel;
+  data?: Record<string, any>;
+}
+
+export type BreadcrumbInput = Omit<Breadcrumb, 'type' | 'timestamp'> & {
+  type?: BreadcrumbType;
+  timestamp?: Date;
+};
+
+export type TimerOutcome = 'success' | 'failure';
+
 export interface TransportConfig {
   level?: LogLevel;
   enabled?: boolean;
   format?: 'json' | 'text';
   bufferSize?: number;
+  maxBufferSize?: number;
+  overflowPolicy?: OverflowPolicy;
   flushInterval?: number;
+  offlineQueue?: OfflineQueueConfig;
+  retry?: RetryConfig;
+  circuitBreaker?: CircuitBreakerConfig;
+  unloadDelivery?: UnloadDelivery;
+  processors?: LogProcessor[];
+}
+
+export type LogProcessor = (
+  entry: LogEntry
+) => LogEntry | null | void | Promise<LogEntry | null | void>;
+
+export interface ProcessorOptions {
+  order?: number;
+  transport?: string;
+}
+
+export type UnloadDelivery = 'auto' | 'beacon' | 'keepalive' | false;
+
+export interface TransportRequest {
+  url: string;
+  /** Defaults to POST. sendBeacon can only POST, so other methods use fetch keepalive on unload. */
+  method?: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface RetryConfig {
+  maxAttempts?: number;
+  baseDelay?: number;
+  maxDelay?: number;
+  jitter?: boolean;
+  respectRetryAfter?: boolean;
+}
+
+export interface CircuitBreakerConfig {
+  enabled?: boolean;
+  failureThreshold?: number;
+  resetTimeout?: number;
+}
+
+export type OverflowPolicy = 'drop-oldest' | 'drop-newest' | 'drop-lowest-level';
+
+export interface QueueStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+export interface OfflineQueueConfig {
+  enabled?: boolean;
+  storage?: QueueStorage;
+  key?: string;
+  maxSize?: number;
+  maxAge?: number;
+  replayOnOnline?: boolean;
 }
 
 export type MaskingRule = {
@@ -54,19 +137,125 @@ export interface HermesTraceConfig {
   autoFlush?: boolean;
   flushInterval?: number;
   masking?: MaskingConfig;
+  errorContext?: ErrorContextConfig;
+  sampling?: SamplingConfig;
+  rateLimit?: RateLimitConfig;
+  dedup?: DedupConfig;
+  processors?: LogProcessor[];
+  traceparent?: string;
+  breadcrumbs?: BreadcrumbsConfig;
+  metrics?: MetricsConfig;
+}
+
+export interface BreadcrumbsConfig {
+  enabled?: boolean;
+  maxBreadcrumbs?: number;
+  clicks?: boolean;
+  navigation?: boolean;
+  console?: boolean;
+  network?: boolean;
+  beforeBreadcrumb?: (breadcrumb: Breadcrumb) => Breadcrumb | null;
+}
+
+export interface DedupConfig {
+  enabled?: boolean;
+  window?: number;
+  maxKeys?: number;
+  fingerprint?: (entry: LogEntry) => string;
+}
+
+export interface SamplingConfig {
+  rate?: number;
+  levels?: Partial<Record<LogLevel, number>>;
+  sessionSticky?: boolean;
+}
+
+export interface RateLimitConfig {
+  enabled?: boolean;
+  burst?: number;
+  refillPerSecond?: number;
+  maxKeys?: number;
+  key?: (level: LogLevel, message: string) => string;
+}
+
+export interface ErrorContextConfig {
+  enabled?: boolean;
+  maxEntries?: number;
+  maxAge?: number;
+  mode?: 'attach' | 'emit';
+}
+
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+export type MetricTags = Record<string, string>;
+
+/** One aggregated series for a single flush interval. */
+export interface MetricPoint {
+  name: string;
+  type: MetricType;
+  tags: MetricTags;
+  startTime: Date;
+  timestamp: Date;
+  value?: number;
+  count?: number;
+  sum?: number;
+  min?: number;
+  max?: number;
+  bucketBounds?: number[];
+  bucketCounts?: number[];
+}
+
+export interface MetricsExporter {
+  name: string;
+  sendMetrics(metrics: MetricPoint[]): Promise<void> | void;
+}
+
+export interface MetricsConfig {
+  enabled?: boolean;
+  flushInterval?: number;
+  prefix?: string;
+  defaultTags?: MetricTags;
+  histogramBuckets?: number[];
+  maxSeries?: number;
+  exporters?: MetricsExporter[];
+}
+
+export interface OtlpMetricsExporterConfig {
+  url: string;
+  headers?: Record<string, string>;
+  resource?: Record<string, string>;
 }
 
 export interface Transport {
   name: string;
   config: TransportConfig;
   log(entry: LogEntry): Promise<void> | void;
+  sendMetrics?(metrics: MetricPoint[]): Promise<void> | void;
   flush?(): Promise<void> | void;
   close?(): Promise<void> | void;
+  flushOnUnload?(): void;
+  getBufferedCount?(): number;
+  dropBuffered?(count: number): number;
 }
 
+export type LokiLabelField = 'level' | 'tags' | 'userId' | 'sessionId' | 'url' | `context.${string}`;
+
+export type LokiEncoding = 'json' | 'gzip' | 'protobuf';
+
 export interface LokiConfig extends TransportConfig {
   url: string;
+  /** Static labels added to every stream. */
   labels?: Record<string, string>;
+  /** Entry fields promoted to stream labels; `url` uses the pathname. Keep to low-cardinality fields. Defaults to level. */
+  labelFields?: LokiLabelField[];
+  /** Sends fields that are not labels as Loki 3 structured metadata instead of in the log line. */
+  structuredMetadata?: boolean;
+  /** Distinct values a label field may take in this transport before it is demoted out of the stream labels. 0 disables the guard. */
+  maxLabelValues?: number;
+  /** Sent as X-Scope-OrgID for multi-tenant Loki. */
+  tenantId?: string;
+  /** Push body encoding. Falls back to plain JSON when the runtime can't compress. Defaults to 'json'. */
+  encoding?: LokiEncoding;
   basicAuth?: {
     username: string;
     password: string;
@@ -75,7 +264,15 @@ export interface LokiConfig extends TransportConfig {
 }
 
 export interface DatadogConfig extends TransportConfig {
-  apiKey: string;
+  apiKey?: string;
+  /** Public client token for browser apps. Accepted for logs only; metrics still need apiKey. */
+  clientToken?: string;
+  /** Datadog site, e.g. 'datadoghq.eu', 'us3.datadoghq.com' or 'us5.datadoghq.com'. */
+  site?: string;
+  /** Gzip request bodies where CompressionStream is available. Defaults to true. */
+  compression?: boolean;
+  /** Sends logs and metrics to this URL with a `ddforward` query parameter instead of straight to Datadog. */
+  proxyUrl?: string;
   service: string;
   env?: string;
   version?: string;
@@ -84,11 +281,81 @@ export interface DatadogConfig extends TransportConfig {
   tags?: string[];
 }
 
+export type SentryMode = 'sdk' | 'envelope';
+
+/** The subset of a Sentry hub (or the @sentry/browser namespace) the transport captures with. */
+export interface SentryHub {
+  withScope(callback: (scope: any) => void): void;
+  captureException(exception: any): any;
+  captureMessage(message: string): any;
+}
+
 export interface SentryConfig extends TransportConfig {
   dsn?: string;
   environment?: string;
   release?: string;
   sampleRate?: number;
+  /** 'envelope' posts events to the DSN directly and needs no @sentry/browser. Defaults to 'sdk'. */
+  mode?: SentryMode;
+  /** Captures through an already initialized hub instead of calling Sentry.init. */
+  hub?: SentryHub;
+  /** Grouping rule per entry; a `fingerprint` array in the entry context takes precedence. */
+  fingerprint?: (entry: LogEntry) => string[] | undefined;
+}
+
+export interface OtlpConfig extends TransportConfig {
+  url: string;
+  headers?: Record<string, string>;
+  serviceName?: string;
+  serviceVersion?: string;
+  environment?: string;
+  resourceAttributes?: Record<string, string>;
+}
+
+export type HeaderProvider = () => Record<string, string> | Promise<Record<string, string>>;
+
+export type BodySerializer = 'json' | 'ndjson' | ((entries: LogEntry[]) => string);
+
+export interface HttpTransportConfig extends TransportConfig {
+  url: string;
+  name?: string;
+  method?: 'POST' | 'PUT' | 'PATCH';
+  headers?: Record<string, string> | HeaderProvider;
+  serializer?: BodySerializer;
+  contentType?: string;
+  maxBatchSize?: number;
+  maxBatchBytes?: number;
+  isSuccess?: (response: Response) => boolean;
+}
+
+export interface ElasticsearchConfig extends TransportConfig {
+  url: string;
+  /** Supports %Y, %m, %d and %H (UTC), resolved from each entry's timestamp. */
+  index?: string;
+  /** Use 'create' when writing to a data stream. */
+  opType?: 'index' | 'create';
+  apiKey?: string;
+  basicAuth?: {
+    username: string;
+    password: string;
+  };
+  headers?: Record<string, string>;
+  serviceName?: string;
+  serviceVersion?: string;
+  environment?: string;
+}
+
+export interface SplunkHecConfig extends TransportConfig {
+  url: string;
+  token: string;
+  /** GUID sent as X-Splunk-Request-Channel; required when indexer acknowledgement is enabled. */
+  channel?: string;
+  host?: string;
+  source?: string;
+  sourcetype?: string;
+  index?: string;
+  /** Indexed fields added to every event. */
+  fields?: Record<string, string>;
 }
 
 export interface ErrorBoundaryConfig {
@@ -98,6 +365,49 @@ export interface ErrorBoundaryConfig {
   context?: Record<string, any>;
 }
 
+export interface NetworkIntegrationConfig {
+  captureFetch?: boolean;
+  captureXhr?: boolean;
+  captureHeaders?: boolean;
+  ignoreUrls?: (string | RegExp)[];
+  tracePropagationTargets?: (string | RegExp)[];
+  sensitiveHeaders?: string[];
+  sensitiveQueryParams?: string[];
+}
+
+export interface GlobalErrorIntegrationConfig {
+  captureErrors?: boolean;
+  captureRejections?: boolean;
+  captureResourceErrors?: boolean;
+  captureCspViolations?: boolean;
+  ignoreErrors?: (string | RegExp)[];
+  denyUrls?: (string | RegExp)[];
+  allowUrls?: (string | RegExp)[];
+  ignoreCrossOriginErrors?: boolean;
+  dedupWindow?: number;
+}
+
+export type WebVitalName = 'LCP' | 'CLS' | 'INP' | 'FCP' | 'TTFB';
+
+export type WebVitalRating = 'good' | 'needs-improvement' | 'poor';
+
+export interface PerformanceIntegrationConfig {
+  webVitals?: boolean;
+  longTasks?: boolean;
+  navigationTiming?: boolean;
+  longTaskThreshold?: number;
+  thresholds?: Partial<Record<WebVitalName, [number, number]>>;
+  tags?: string[];
+}
+
+export type ConsoleMethod = 'debug' | 'info' | 'log' | 'warn' | 'error';
+
+export interface ConsoleIntegrationConfig {
+  methods?: ConsoleMethod[];
+  ignoreMessages?: (string | RegExp)[];
+  tags?: string[];
+}
+
 export interface FrameworkIntegration {
   install(logger: any): void;
   uninstall?(): void;
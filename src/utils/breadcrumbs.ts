@@ -0,0 +1,206 @@
+import { Breadcrumb, BreadcrumbInput, BreadcrumbsConfig, ConsoleMethod } from '../types';
+import { RingBuffer } from './ring-buffer';
+import { isInternalRequest } from './internal-request';
+import { CONSOLE_LEVELS, formatConsoleArgs } from './console-format';
+
+const MAX_MESSAGE_LENGTH = 300;
+const MAX_SELECTOR_DEPTH = 5;
+const SAFE_ATTRIBUTES = ['name', 'type', 'role', 'data-testid'];
+
+const truncate = (value: string): string =>
+  value.length > MAX_MESSAGE_LENGTH ? `${value.slice(0, MAX_MESSAGE_LENGTH)}...` : value;
+
+/**
+ * Builds a CSS-like selector from tag, id, classes and a few structural
+ * attributes only. Text content and input values are never read, so clicks
+ * on sensitive fields don't leak what the user typed.
+ */
+export const elementSelector = (element: Element | null): string => {
+  const parts: string[] = [];
+  let current = element;
+
+  while (current && current.tagName && parts.length < MAX_SELECTOR_DEPTH) {
+    let part = current.tagName.toLowerCase();
+    if (current.id) {
+      part += `#${current.id}`;
+    }
+
+    const classes = typeof current.className === 'string' ? current.className.trim().split(/\s+/) : [];
+    classes.filter(Boolean).slice(0, 2).forEach(name => {
+      part += `.${name}`;
+    });
+
+    SAFE_ATTRIBUTES.forEach(attribute => {
+      const value = current!.getAttribute(attribute);
+      if (value) {
+        part += `[${attribute}="${value}"]`;
+      }
+    });
+
+    parts.unshift(part);
+    if (current.id || current.tagName === 'BODY') break;
+    current = current.parentElement;
+  }
+
+  return parts.join(' > ');
+};
+
+export class BreadcrumbRecorder {
+  private readonly config: Required<BreadcrumbsConfig>;
+  private buffer: RingBuffer<Breadcrumb>;
+  private lastUrl?: string;
+  private teardown: Array<() => void> = [];
+
+  constructor(config: BreadcrumbsConfig = {}, private readonly mask: (value: any) => any = value => value) {
+    this.config = {
+      enabled: false,
+      maxBreadcrumbs: 50,
+      clicks: true,
+      navigation: true,
+      console: true,
+      network: true,
+      beforeBreadcrumb: breadcrumb => breadcrumb,
+      ...config,
+    };
+    this.buffer = new RingBuffer(this.config.enabled ? this.config.maxBreadcrumbs : 0);
+  }
+
+  public get enabled(): boolean {
+    return this.config.enabled;
+  }
+
+  public add(breadcrumb: BreadcrumbInput): void {
+    const type = breadcrumb.type || 'custom';
+    if (!this.config.enabled || !this.isTypeEnabled(type)) return;
+
+    const result = this.config.beforeBreadcrumb({
+      ...breadcrumb,
+      type,
+      timestamp: breadcrumb.timestamp || new Date(),
+      message: this.mask(breadcrumb.message),
+      ...(breadcrumb.data && { data: this.mask(breadcrumb.data) }),
+    });
+
+    if (result) {
+      this.buffer.push(result);
+    }
+  }
+
+  public getAll(): Breadcrumb[] {
+    return this.buffer.toArray();
+  }
+
+  public clear(): void {
+    this.buffer.clear();
+  }
+
+  public install(): void {
+    if (!this.config.enabled) return;
+
+    this.uninstall();
+
+    if (this.config.clicks && typeof document !== 'undefined' && typeof document.addEventListener === 'function') {
+      this.instrumentClicks();
+    }
+
+    if (this.config.navigation && typeof window !== 'undefined' && typeof history !== 'undefined') {
+      this.instrumentNavigation();
+    }
+
+    if (this.config.console && typeof console !== 'undefined') {
+      this.instrumentConsole();
+    }
+  }
+
+  public uninstall(): void {
+    this.teardown.forEach(restore => restore());
+    this.teardown = [];
+  }
+
+  private isTypeEnabled(type: Breadcrumb['type']): boolean {
+    switch (type) {
+      case 'click':
+        return this.config.clicks;
+      case 'navigation':
+        return this.config.navigation;
+      case 'console':
+        return this.config.console;
+      case 'http':
+        return this.config.network;
+      default:
+        return true;
+    }
+  }
+
+  private instrumentClicks(): void {
+    const listener = (event: Event) => {
+      const selector = elementSelector(event.target as Element);
+      if (!selector) return;
+
+      this.add({ type: 'click', category: 'ui.click', message: selector });
+    };
+
+    // Capture phase so clicks are recorded even when handlers stop propagation
+    document.addEventListener('click', listener, true);
+    this.teardown.push(() => document.removeEventListener('click', listener, true));
+  }
+
+  private instrumentNavigation(): void {
+    this.lastUrl = window.location?.href;
+
+    const recordNavigation = (to?: string) => {
+      const from = this.lastUrl;
+      const resolved = to ? new URL(to, from || window.location.href).href : window.location.href;
+      if (resolved === from) return;
+
+      this.lastUrl = resolved;
+      this.add({ type: 'navigation', category: 'navigation', message: resolved, data: { from, to: resolved } });
+    };
+
+    (['pushState', 'replaceState'] as const).forEach(method => {
+      const original = history[method];
+      history[method] = function (this: History, data: any, unused: string, url?: string | URL | null) {
+        const result = original.call(this, data, unused, url);
+        if (url !== undefined && url !== null) {
+          recordNavigation(String(url));
+        }
+        return result;
+      };
+      this.teardown.push(() => {
+        history[method] = original;
+      });
+    });
+
+    const listener = () => recordNavigation();
+    window.addEventListener('popstate', listener);
+    window.addEventListener('hashchange', listener);
+    this.teardown.push(() => {
+      window.removeEventListener('popstate', listener);
+      window.removeEventListener('hashchange', listener);
+    });
+  }
+
+  private instrumentConsole(): void {
+    (Object.keys(CONSOLE_LEVELS) as ConsoleMethod[]).forEach(method => {
+      const original = console[method];
+      if (typeof original !== 'function') return;
+
+      const recorder = this;
+      console[method] = function (...args: any[]) {
+        // Output from ConsoleTransport and HermesTrace itself is not a user breadcrumb
+        if (!isInternalRequest()) {
+          recorder.add({
+            type: 'console',
+            category: 'console',
+            level: CONSOLE_LEVELS[method],
+            message: truncate(formatConsoleArgs(args).message),
+          });
+        }
+        return original.apply(console, args);
+      };
+      this.teardown.push(() => {
+        console[method] = original;
+      });
+    });
+  }
+}
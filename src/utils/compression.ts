@@ -0,0 +1,23 @@
+export const supportsGzip = (): boolean =>
+  typeof CompressionStream !== 'undefined' && typeof TextEncoder !== 'undefined';
+
+/** Gzips a request body with the browser's CompressionStream. Callers check supportsGzip first. */
+export const gzip = async (body: string): Promise<Uint8Array> => {
+  const stream = new CompressionStream('gzip');
+  const writer = stream.writable.getWriter();
+  writer.write(new TextEncoder().encode(body));
+  writer.close();
+
+  const chunks: Uint8Array[] = [];
+  const reader = stream.readable.getReader();
+  for (let result = await reader.read(); !result.done; result = await reader.read()) {
+    chunks.push(result.value);
+  }
+
+  const output = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  chunks.reduce((offset, chunk) => {
+    output.set(chunk, offset);
+    return offset + chunk.length;
+  }, 0);
+  return output;
+};
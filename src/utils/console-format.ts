@@ -0,0 +1,64 @@
+import { ConsoleMethod, LogLevel } from '../types';
+
+const FORMAT_SPECIFIER = /%[sdifoOjc%]/g;
+
+export const CONSOLE_LEVELS: Record<ConsoleMethod, LogLevel> = {
+  debug: LogLevel.DEBUG,
+  info: LogLevel.INFO,
+  log: LogLevel.INFO,
+  warn: LogLevel.WARN,
+  error: LogLevel.ERROR,
+};
+
+export interface FormattedConsoleArgs {
+  message: string;
+  error?: Error;
+  objects: any[];
+}
+
+export const stringifyArg = (arg: any): string => {
+  if (typeof arg === 'string') return arg;
+  if (arg instanceof Error) return `${arg.name}: ${arg.message}`;
+  try {
+    return JSON.stringify(arg) ?? String(arg);
+  } catch (error) {
+    return String(arg);
+  }
+};
+
+/**
+ * Renders console arguments the way browsers print them, applying printf-style
+ * specifiers (%s, %d, %o, ...) from a leading format string. The first Error
+ * is returned separately and object arguments are kept for structured context.
+ */
+export const formatConsoleArgs = (args: any[]): FormattedConsoleArgs => {
+  const remaining = [...args];
+  const parts: string[] = [];
+  const error = args.find((arg): arg is Error => arg instanceof Error);
+  const objects = args.filter(arg => arg !== null && typeof arg === 'object' && !(arg instanceof Error));
+
+  if (typeof remaining[0] === 'string' && remaining[0].includes('%')) {
+    const format = remaining.shift() as string;
+    parts.push(format.replace(FORMAT_SPECIFIER, specifier => {
+      if (specifier === '%%') return '%';
+      if (remaining.length === 0) return specifier;
+
+      const value = remaining.shift();
+      switch (specifier) {
+        case '%d':
+        case '%i':
+          return String(parseInt(value, 10));
+        case '%f':
+          return String(parseFloat(value));
+        case '%c':
+          return '';
+        default:
+          return stringifyArg(value);
+      }
+    }));
+  }
+
+  parts.push(...remaining.map(stringifyArg));
+
+  return { message: parts.join(' '), error, objects };
+};
@@ -0,0 +1,81 @@
+import { DedupConfig, LogEntry } from '../types';
+
+interface DedupGroup {
+  entry: LogEntry;
+  count: number;
+  firstSeen: Date;
+  lastSeen: Date;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export class Deduplicator {
+  private readonly config: Required<DedupConfig>;
+  private groups = new Map<string, DedupGroup>();
+
+  constructor(config: DedupConfig, private readonly emit: (entry: LogEntry) => void) {
+    this.config = {
+      enabled: true,
+      window: 5000,
+      maxKeys: 500,
+      fingerprint: (entry: LogEntry) => [
+        entry.level,
+        entry.message,
+        entry.error?.name || '',
+        entry.error?.message || '',
+      ].join('|'),
+      ...config,
+    };
+  }
+
+  public add(entry: LogEntry): void {
+    if (!this.config.enabled) {
+      this.emit(entry);
+      return;
+    }
+
+    const key = this.config.fingerprint(entry);
+    const group = this.groups.get(key);
+
+    if (group) {
+      group.count++;
+      group.lastSeen = entry.timestamp;
+      return;
+    }
+
+    if (this.groups.size >= this.config.maxKeys) {
+      this.release(this.groups.keys().next().value as string);
+    }
+
+    this.groups.set(key, {
+      entry,
+      count: 1,
+      firstSeen: entry.timestamp,
+      lastSeen: entry.timestamp,
+      timer: setTimeout(() => this.release(key), this.config.window),
+    });
+  }
+
+  public flush(): void {
+    Array.from(this.groups.keys()).forEach(key => this.release(key));
+  }
+
+  private release(key: string): void {
+    const group = this.groups.get(key);
+    if (!group) return;
+
+    clearTimeout(group.timer);
+    this.groups.delete(key);
+
+    if (group.count === 1) {
+      this.emit(group.entry);
+      return;
+    }
+
+    this.emit({
+      ...group.entry,
+      count: group.count,
+      firstSeen: group.firstSeen,
+      lastSeen: group.lastSeen,
+    });
+  }
+}
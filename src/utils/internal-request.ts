@@ -0,0 +1,27 @@
+let depth = 0;
+
+/**
+ * Marks requests and console output issued synchronously inside fn as made by
+ * HermesTrace itself, so instrumentation can skip them instead of logging its
+ * own traffic.
+ */
+export const runInternal = <T>(fn: () => T): T => {
+  depth++;
+  try {
+    return fn();
+  } finally {
+    depth--;
+  }
+};
+
+export const isInternalRequest = (): boolean => depth > 0;
+
+/**
+ * HermesTrace's own warnings and errors. They are often written from async
+ * callbacks (failed flushes, queue errors), where the caller is no longer
+ * inside runInternal, so each call marks itself.
+ */
+export const internalConsole = {
+  warn: (...args: unknown[]): void => runInternal(() => console.warn(...args)),
+  error: (...args: unknown[]): void => runInternal(() => console.error(...args)),
+};
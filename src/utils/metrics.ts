@@ -0,0 +1,203 @@
+import { MetricPoint, MetricsConfig, MetricsExporter, MetricTags, MetricType } from '../types';
+import { internalConsole } from './internal-request';
+
+const DEFAULT_BUCKETS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+interface Series {
+  name: string;
+  type: MetricType;
+  tags: MetricTags;
+  value: number;
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+  bucketBounds?: number[];
+  bucketCounts?: number[];
+}
+
+const seriesKey = (name: string, tags: MetricTags): string =>
+  `${name}|${Object.keys(tags).sort().map(key => `${key}=${tags[key]}`).join(',')}`;
+
+export class Counter {
+  constructor(private readonly registry: MetricsRegistry, public readonly name: string, private readonly tags: MetricTags = {}) {}
+
+  public add(value = 1, tags?: MetricTags): void {
+    this.registry.record('counter', this.name, value, { ...this.tags, ...tags });
+  }
+}
+
+export class Gauge {
+  constructor(private readonly registry: MetricsRegistry, public readonly name: string, private readonly tags: MetricTags = {}) {}
+
+  public set(value: number, tags?: MetricTags): void {
+    this.registry.record('gauge', this.name, value, { ...this.tags, ...tags });
+  }
+}
+
+export class Histogram {
+  constructor(
+    private readonly registry: MetricsRegistry,
+    public readonly name: string,
+    private readonly tags: MetricTags = {},
+    private readonly buckets?: number[]
+  ) {}
+
+  public record(value: number, tags?: MetricTags): void {
+    this.registry.record('histogram', this.name, value, { ...this.tags, ...tags }, this.buckets);
+  }
+}
+
+/**
+ * Aggregates instrument updates client-side and hands one point per series to
+ * the exporters every flush interval, so a busy counter costs one data point
+ * instead of one log entry per event. Counters and histograms are deltas.
+ */
+export class MetricsRegistry {
+  private readonly config: Required<MetricsConfig>;
+  private series = new Map<string, Series>();
+  private intervalStart = new Date();
+  private flushTimer?: ReturnType<typeof setInterval>;
+
+  constructor(
+    config: MetricsConfig = {},
+    private readonly getExporters: () => MetricsExporter[] = () => [],
+    private readonly autoFlush = false
+  ) {
+    this.config = {
+      enabled: true,
+      flushInterval: 10000,
+      prefix: '',
+      defaultTags: {},
+      histogramBuckets: DEFAULT_BUCKETS,
+      maxSeries: 1000,
+      exporters: [],
+      ...config,
+    };
+  }
+
+  public counter(name: string, tags?: MetricTags): Counter {
+    return new Counter(this, name, tags);
+  }
+
+  public gauge(name: string, tags?: MetricTags): Gauge {
+    return new Gauge(this, name, tags);
+  }
+
+  public histogram(name: string, tags?: MetricTags, buckets?: number[]): Histogram {
+    return new Histogram(this, name, tags, buckets);
+  }
+
+  public record(type: MetricType, name: string, value: number, tags: MetricTags = {}, buckets?: number[]): void {
+    if (!this.config.enabled || !Number.isFinite(value)) return;
+    // Counters are monotonic; a negative delta would corrupt rates downstream
+    if (type === 'counter' && value < 0) return;
+
+    const fullName = this.config.prefix + name;
+    const allTags = { ...this.config.defaultTags, ...tags };
+    const key = seriesKey(fullName, allTags);
+    let series = this.series.get(key);
+
+    if (!series) {
+      if (this.series.size >= this.config.maxSeries) return;
+
+      const bounds = type === 'histogram' ? [...(buckets || this.config.histogramBuckets)].sort((a, b) => a - b) : undefined;
+      series = {
+        name: fullName,
+        type,
+        tags: allTags,
+        value: 0,
+        count: 0,
+        sum: 0,
+        min: Infinity,
+        max: -Infinity,
+        ...(bounds && { bucketBounds: bounds, bucketCounts: new Array(bounds.length + 1).fill(0) }),
+      };
+      this.series.set(key, series);
+      this.startFlushTimer();
+    }
+
+    if (series.type !== type) return;
+
+    series.count++;
+    switch (type) {
+      case 'counter':
+        series.value += value;
+        break;
+      case 'gauge':
+        series.value = value;
+        break;
+      case 'histogram': {
+        series.sum += value;
+        series.min = Math.min(series.min, value);
+        series.max = Math.max(series.max, value);
+        const index = series.bucketBounds!.findIndex(bound => value <= bound);
+        series.bucketCounts![index === -1 ? series.bucketBounds!.length : index]++;
+        break;
+      }
+    }
+  }
+
+  /** Returns the points aggregated since the last collection and starts a new interval. */
+  public collect(): MetricPoint[] {
+    const startTime = this.intervalStart;
+    const timestamp = new Date();
+    const points = Array.from(this.series.values()).map(series => this.toPoint(series, startTime, timestamp));
+
+    this.series.clear();
+    this.intervalStart = timestamp;
+    return points;
+  }
+
+  public async flush(): Promise<void> {
+    const metrics = this.collect();
+    if (metrics.length === 0) return;
+
+    await Promise.all(
+      [...this.getExporters(), ...this.config.exporters].map(async exporter => {
+        try {
+          await exporter.sendMetrics(metrics);
+        } catch (error) {
+          internalConsole.error(`Failed to send metrics to ${exporter.name}:`, error);
+        }
+      })
+    );
+  }
+
+  public close(): void {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+  }
+
+  private startFlushTimer(): void {
+    if (this.flushTimer || !this.autoFlush || typeof window === 'undefined' || this.config.flushInterval <= 0) return;
+
+    this.flushTimer = setInterval(() => this.flush(), this.config.flushInterval);
+  }
+
+  private toPoint(series: Series, startTime: Date, timestamp: Date): MetricPoint {
+    const point: MetricPoint = {
+      name: series.name,
+      type: series.type,
+      tags: series.tags,
+      startTime,
+      timestamp,
+    };
+
+    if (series.type === 'histogram') {
+      return {
+        ...point,
+        count: series.count,
+        sum: series.sum,
+        min: series.min,
+        max: series.max,
+        bucketBounds: series.bucketBounds,
+        bucketCounts: series.bucketCounts,
+      };
+    }
+
+    return { ...point, value: series.value };
+  }
+}
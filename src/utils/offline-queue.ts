@@ -0,0 +1,298 @@
+import { Breadcrumb, LogEntry, LogLevel, OfflineQueueConfig, QueueStorage } from '../types';
+import { internalConsole } from './internal-request';
+import { TransportError } from './retry';
+
+type SerializedBreadcrumb = Omit<Breadcrumb, 'timestamp'> & { timestamp: string };
+
+interface SerializedLogEntry {
+  level: LogLevel;
+  message: string;
+  timestamp: string;
+  context?: Record<string, any>;
+  error?: { name: string; message: string; stack?: string };
+  tags?: string[];
+  userId?: string;
+  sessionId?: string;
+  url?: string;
+  userAgent?: string;
+  stack?: string;
+  history?: SerializedLogEntry[];
+  count?: number;
+  firstSeen?: string;
+  lastSeen?: string;
+  breadcrumbs?: SerializedBreadcrumb[];
+}
+
+interface QueuedBatch {
+  id: string;
+  createdAt: number;
+  entries: SerializedLogEntry[];
+}
+
+export const serializeEntry = (entry: LogEntry): SerializedLogEntry => {
+  const { timestamp, error, history, firstSeen, lastSeen, breadcrumbs, ...rest } = entry;
+  return {
+    ...rest,
+    timestamp: timestamp.toISOString(),
+    ...(firstSeen && { firstSeen: firstSeen.toISOString() }),
+    ...(lastSeen && { lastSeen: lastSeen.toISOString() }),
+    ...(error && { error: { name: error.name, message: error.message, stack: error.stack } }),
+    ...(history && { history: history.map(serializeEntry) }),
+    ...(breadcrumbs && {
+      breadcrumbs: breadcrumbs.map(breadcrumb => ({ ...breadcrumb, timestamp: breadcrumb.timestamp.toISOString() })),
+    }),
+  };
+};
+
+export const deserializeEntry = (entry: SerializedLogEntry): LogEntry => {
+  const { timestamp, error, history, firstSeen, lastSeen, breadcrumbs, ...rest } = entry;
+  const restored: LogEntry = {
+    ...rest,
+    timestamp: new Date(timestamp),
+    ...(firstSeen && { firstSeen: new Date(firstSeen) }),
+    ...(lastSeen && { lastSeen: new Date(lastSeen) }),
+    ...(history && { history: history.map(deserializeEntry) }),
+    ...(breadcrumbs && {
+      breadcrumbs: breadcrumbs.map(breadcrumb => ({ ...breadcrumb, timestamp: new Date(breadcrumb.timestamp) })),
+    }),
+  };
+
+  if (error) {
+    const errorObj = new Error(error.message);
+    errorObj.name = error.name;
+    errorObj.stack = error.stack;
+    restored.error = errorObj;
+  }
+
+  return restored;
+};
+
+export class MemoryQueueStorage implements QueueStorage {
+  private items = new Map<string, string>();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.has(key) ? this.items.get(key)! : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+}
+
+export class LocalStorageQueueStorage implements QueueStorage {
+  async getItem(key: string): Promise<string | null> {
+    return localStorage.getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    localStorage.setItem(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    localStorage.removeItem(key);
+  }
+}
+
+export class IndexedDBQueueStorage implements QueueStorage {
+  private dbPromise?: Promise<IDBDatabase>;
+
+  constructor(
+    private readonly dbName: string = 'hermes-trace',
+    private readonly storeName: string = 'queue'
+  ) {}
+
+  async getItem(key: string): Promise<string | null> {
+    const value = await this.request<string | undefined>('readonly', store => store.get(key));
+    return value ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.request('readwrite', store => store.put(value, key));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(key));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(this.storeName);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async request<T>(
+    mode: 'readonly' | 'readwrite',
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = operation(db.transaction(this.storeName, mode).objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+export const createDefaultQueueStorage = (): QueueStorage => {
+  if (typeof indexedDB !== 'undefined') {
+    return new IndexedDBQueueStorage();
+  }
+  if (typeof localStorage !== 'undefined') {
+    return new LocalStorageQueueStorage();
+  }
+  return new MemoryQueueStorage();
+};
+
+export class OfflineQueue {
+  private readonly config: Required<Omit<OfflineQueueConfig, 'storage'>> & { storage: QueueStorage };
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(name: string, config: OfflineQueueConfig = {}) {
+    this.config = {
+      enabled: true,
+      key: `hermes-trace:queue:${name}`,
+      maxSize: 500,
+      maxAge: 24 * 60 * 60 * 1000,
+      replayOnOnline: true,
+      ...config,
+      storage: config.storage || createDefaultQueueStorage(),
+    };
+  }
+
+  public get replayOnOnline(): boolean {
+    return this.config.replayOnOnline;
+  }
+
+  public enqueue(entries: LogEntry[]): Promise<void> {
+    if (entries.length === 0) return Promise.resolve();
+
+    return this.exclusive(async () => {
+      const batches = await this.load();
+      batches.push({
+        id: Math.random().toString(36).substr(2, 9) + Date.now().toString(36),
+        createdAt: Date.now(),
+        entries: entries.map(serializeEntry),
+      });
+      await this.save(batches);
+    });
+  }
+
+  /**
+   * Sends queued batches oldest first, stopping at the first retryable
+   * failure so the rest wait for the next replay. When the error reports
+   * which entries were not delivered, only those stay queued. Batches that
+   * fail with a non-retryable error are dropped, as they would never be
+   * accepted.
+   */
+  public drain(
+    send: (entries: LogEntry[]) => Promise<void>,
+    isRetryable: (error: unknown) => boolean = () => true
+  ): Promise<void> {
+    return this.exclusive(async () => {
+      const batches = await this.load();
+      if (batches.length === 0) return;
+
+      while (batches.length > 0) {
+        try {
+          await send(batches[0].entries.map(deserializeEntry));
+        } catch (error) {
+          if (isRetryable(error)) {
+            if (error instanceof TransportError && error.undelivered) {
+              batches[0].entries = error.undelivered.map(serializeEntry);
+            }
+            break;
+          }
+          internalConsole.error(`Dropping ${batches[0].entries.length} queued entries from ${this.config.key}: non-retryable error`);
+        }
+        batches.shift();
+      }
+
+      await this.save(batches);
+    });
+  }
+
+  public size(): Promise<number> {
+    return this.exclusive(async () => {
+      const batches = await this.load();
+      return batches.reduce((total, batch) => total + batch.entries.length, 0);
+    });
+  }
+
+  public clear(): Promise<void> {
+    return this.exclusive(() => this.config.storage.removeItem(this.config.key));
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const locked = () => this.withStorageLock(task);
+    const result = this.pending.then(locked, locked);
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Every tab of the origin shares the storage key, so the promise chain
+   * alone can't stop two tabs from overwriting each other's writes or
+   * replaying the same batches. Web Locks are origin-wide; without them the
+   * queue is only safe within a single tab.
+   */
+  private withStorageLock<T>(task: () => Promise<T>): Promise<T> {
+    if (typeof navigator === 'undefined' || !navigator.locks) {
+      return task();
+    }
+    return navigator.locks.request(this.config.key, () => task());
+  }
+
+  private async load(): Promise<QueuedBatch[]> {
+    try {
+      const raw = await this.config.storage.getItem(this.config.key);
+      return raw ? this.prune(JSON.parse(raw)) : [];
+    } catch (error) {
+      internalConsole.error(`Failed to read offline queue ${this.config.key}:`, error);
+      return [];
+    }
+  }
+
+  private async save(batches: QueuedBatch[]): Promise<void> {
+    try {
+      const pruned = this.prune(batches);
+      if (pruned.length === 0) {
+        await this.config.storage.removeItem(this.config.key);
+      } else {
+        await this.config.storage.setItem(this.config.key, JSON.stringify(pruned));
+      }
+    } catch (error) {
+      internalConsole.error(`Failed to write offline queue ${this.config.key}:`, error);
+    }
+  }
+
+  private prune(batches: QueuedBatch[]): QueuedBatch[] {
+    const cutoff = Date.now() - this.config.maxAge;
+    const fresh = batches.filter(batch => batch.createdAt >= cutoff);
+
+    let overflow = fresh.reduce((total, batch) => total + batch.entries.length, 0) - this.config.maxSize;
+    while (overflow > 0 && fresh.length > 0) {
+      const oldest = fresh[0];
+      if (oldest.entries.length <= overflow) {
+        overflow -= oldest.entries.length;
+        fresh.shift();
+      } else {
+        oldest.entries = oldest.entries.slice(overflow);
+        overflow = 0;
+      }
+    }
+
+    return fresh;
+  }
+}
@@ -0,0 +1,78 @@
+import { MetricPoint, MetricTags } from '../types';
+
+// OTLP aggregation temporality: counters and histograms are reset every flush
+const AGGREGATION_TEMPORALITY_DELTA = 1;
+
+/** Nanosecond timestamps exceed Number.MAX_SAFE_INTEGER, so OTLP/JSON carries them as strings. */
+export const toUnixNano = (date: Date): string => `${date.getTime()}000000`;
+
+export const toAnyValue = (value: any): Record<string, any> => {
+  if (typeof value === 'boolean') return { boolValue: value };
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  }
+  if (typeof value === 'string') return { stringValue: value };
+  if (value instanceof Date) return { stringValue: value.toISOString() };
+  if (Array.isArray(value)) return { arrayValue: { values: value.map(toAnyValue) } };
+  if (value && typeof value === 'object') return { kvlistValue: { values: toOtlpAttributes(value) } };
+  return { stringValue: String(value) };
+};
+
+export const toOtlpAttributes = (attributes: Record<string, any>): Array<{ key: string; value: Record<string, any> }> =>
+  Object.keys(attributes)
+    .filter(key => attributes[key] !== undefined && attributes[key] !== null)
+    .map(key => ({ key, value: toAnyValue(attributes[key]) }));
+
+const toDataPoint = (point: MetricPoint): Record<string, any> => {
+  const base = {
+    attributes: toOtlpAttributes(point.tags),
+    startTimeUnixNano: toUnixNano(point.startTime),
+    timeUnixNano: toUnixNano(point.timestamp),
+  };
+
+  if (point.type === 'histogram') {
+    return {
+      ...base,
+      count: String(point.count),
+      sum: point.sum,
+      min: point.min,
+      max: point.max,
+      bucketCounts: point.bucketCounts!.map(String),
+      explicitBounds: point.bucketBounds,
+    };
+  }
+
+  return { ...base, asDouble: point.value };
+};
+
+/** Builds an OTLP/HTTP JSON ExportMetricsServiceRequest body. */
+export const toOtlpMetrics = (metrics: MetricPoint[], resource: MetricTags = {}): Record<string, any> => {
+  const byName = new Map<string, MetricPoint[]>();
+  metrics.forEach(point => {
+    byName.set(point.name, [...(byName.get(point.name) || []), point]);
+  });
+
+  const otlpMetrics = Array.from(byName.values()).map(points => {
+    const { name, type } = points[0];
+    const dataPoints = points.map(toDataPoint);
+
+    switch (type) {
+      case 'counter':
+        return { name, sum: { dataPoints, aggregationTemporality: AGGREGATION_TEMPORALITY_DELTA, isMonotonic: true } };
+      case 'histogram':
+        return { name, histogram: { dataPoints, aggregationTemporality: AGGREGATION_TEMPORALITY_DELTA } };
+      default:
+        return { name, gauge: { dataPoints } };
+    }
+  });
+
+  return {
+    resourceMetrics: [{
+      resource: { attributes: toOtlpAttributes(resource) },
+      scopeMetrics: [{
+        scope: { name: 'hermes-trace' },
+        metrics: otlpMetrics,
+      }],
+    }],
+  };
+};
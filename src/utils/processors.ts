@@ -0,0 +1,78 @@
+import { LogEntry, LogProcessor } from '../types';
+import { internalConsole } from './internal-request';
+
+interface RegisteredProcessor {
+  processor: LogProcessor;
+  order: number;
+  transport?: string;
+}
+
+export const isPromiseLike = (value: any): value is PromiseLike<any> =>
+  !!value && typeof value.then === 'function';
+
+/**
+ * Runs processors in sequence. Stays synchronous until a processor returns a
+ * promise, so loggers with only sync processors deliver entries immediately.
+ * A processor returning null drops the entry; returning nothing keeps it.
+ */
+export const runProcessors = (
+  entry: LogEntry,
+  processors: LogProcessor[],
+  done: (entry: LogEntry) => void
+): Promise<void> | void => {
+  let current = entry;
+
+  for (let i = 0; i < processors.length; i++) {
+    let result: ReturnType<LogProcessor>;
+    try {
+      result = processors[i](current);
+    } catch (error) {
+      internalConsole.error('Log processor failed:', error);
+      continue;
+    }
+
+    if (isPromiseLike(result)) {
+      const remaining = processors.slice(i + 1);
+      const previous = current;
+      return Promise.resolve(result).then(
+        resolved => {
+          if (resolved === null) return;
+          return runProcessors(resolved || previous, remaining, done);
+        },
+        error => {
+          internalConsole.error('Log processor failed:', error);
+          return runProcessors(previous, remaining, done);
+        }
+      );
+    }
+
+    if (result === null) return;
+    if (result) current = result;
+  }
+
+  done(current);
+};
+
+export class ProcessorChain {
+  private processors: RegisteredProcessor[] = [];
+
+  public add(processor: LogProcessor, order = 0, transport?: string): () => void {
+    const registered = { processor, order, transport };
+    this.processors.push(registered);
+    // Stable sort keeps registration order for processors with equal order
+    this.processors = this.processors
+      .map((item, index) => ({ item, index }))
+      .sort((a, b) => a.item.order - b.item.order || a.index - b.index)
+      .map(({ item }) => item);
+
+    return () => {
+      this.processors = this.processors.filter(item => item !== registered);
+    };
+  }
+
+  public get(transport?: string): LogProcessor[] {
+    return this.processors
+      .filter(item => item.transport === transport)
+      .map(item => item.processor);
+  }
+}
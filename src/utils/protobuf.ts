@@ -0,0 +1,53 @@
+const WIRE_VARINT = 0;
+const WIRE_LENGTH_DELIMITED = 2;
+
+/**
+ * Minimal protobuf encoder for the few messages HermesTrace sends, so the
+ * bundle doesn't need a protobuf runtime. Default values are skipped, as
+ * proto3 does.
+ */
+export class ProtoWriter {
+  private readonly bytes: number[] = [];
+
+  public uint(field: number, value: number): this {
+    if (value === 0) return this;
+    this.tag(field, WIRE_VARINT);
+    this.varint(value);
+    return this;
+  }
+
+  public string(field: number, value: string): this {
+    if (value === '') return this;
+    return this.raw(field, new TextEncoder().encode(value));
+  }
+
+  public message(field: number, message: ProtoWriter): this {
+    return this.raw(field, message.finish());
+  }
+
+  public finish(): Uint8Array {
+    return new Uint8Array(this.bytes);
+  }
+
+  private raw(field: number, data: Uint8Array): this {
+    this.tag(field, WIRE_LENGTH_DELIMITED);
+    this.varint(data.length);
+    for (let i = 0; i < data.length; i++) {
+      this.bytes.push(data[i]);
+    }
+    return this;
+  }
+
+  private tag(field: number, wireType: number): void {
+    this.varint(field * 8 + wireType);
+  }
+
+  private varint(value: number): void {
+    // Arithmetic rather than bit shifts so values above 2^31 encode correctly
+    while (value > 127) {
+      this.bytes.push((value % 128) + 128);
+      value = Math.floor(value / 128);
+    }
+    this.bytes.push(value);
+  }
+}
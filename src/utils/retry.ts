@@ -0,0 +1,126 @@
+import { RetryConfig, CircuitBreakerConfig, LogEntry } from '../types';
+
+export class TransportError extends Error {
+  public readonly status?: number;
+  public readonly retryAfter?: number;
+  /** Set when part of a flush was delivered; only these entries are retried. */
+  public undelivered?: LogEntry[];
+
+  constructor(message: string, status?: number, retryAfter?: number) {
+    super(message);
+    this.name = 'TransportError';
+    this.status = status;
+    this.retryAfter = retryAfter;
+  }
+
+  static fromResponse(transport: string, response: Response): TransportError {
+    const retryAfter = parseRetryAfter(response.headers?.get('Retry-After'));
+    return new TransportError(
+      `${transport} transport failed: ${response.status} ${response.statusText}`,
+      response.status,
+      retryAfter
+    );
+  }
+}
+
+export const parseRetryAfter = (value?: string | null): number | undefined => {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+};
+
+export class RetryPolicy {
+  private readonly config: Required<RetryConfig>;
+
+  constructor(config: RetryConfig = {}) {
+    this.config = {
+      maxAttempts: 5,
+      baseDelay: 1000,
+      maxDelay: 60000,
+      jitter: true,
+      respectRetryAfter: true,
+      ...config,
+    };
+  }
+
+  public get maxAttempts(): number {
+    return this.config.maxAttempts;
+  }
+
+  public isRetryable(error: unknown): boolean {
+    if (!(error instanceof TransportError) || error.status === undefined) {
+      return true;
+    }
+    const { status } = error;
+    return status === 408 || status === 425 || status === 429 || status >= 500;
+  }
+
+  public getDelay(attempt: number, error?: unknown): number {
+    const exponential = Math.min(
+      this.config.maxDelay,
+      this.config.baseDelay * Math.pow(2, Math.max(0, attempt - 1))
+    );
+    const delay = this.config.jitter ? Math.random() * exponential : exponential;
+
+    if (this.config.respectRetryAfter && error instanceof TransportError && error.retryAfter !== undefined) {
+      return Math.max(delay, error.retryAfter);
+    }
+
+    return delay;
+  }
+}
+
+type CircuitState = 'closed' | 'open' | 'half-open';
+
+export class CircuitBreaker {
+  private readonly config: Required<CircuitBreakerConfig>;
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+
+  constructor(config: CircuitBreakerConfig = {}) {
+    this.config = {
+      enabled: true,
+      failureThreshold: 5,
+      resetTimeout: 60000,
+      ...config,
+    };
+  }
+
+  public getState(): CircuitState {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.config.resetTimeout) {
+      this.state = 'half-open';
+    }
+    return this.state;
+  }
+
+  public canRequest(): boolean {
+    if (!this.config.enabled) return true;
+    return this.getState() !== 'open';
+  }
+
+  public recordSuccess(): void {
+    this.failures = 0;
+    this.state = 'closed';
+  }
+
+  public recordFailure(): void {
+    if (!this.config.enabled) return;
+
+    this.failures++;
+    if (this.getState() === 'half-open' || this.failures >= this.config.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+}
@@ -0,0 +1,40 @@
+export class RingBuffer<T> {
+  private items: (T | undefined)[];
+  private start = 0;
+  private count = 0;
+
+  constructor(private readonly capacity: number) {
+    this.items = new Array(Math.max(0, capacity));
+  }
+
+  public get size(): number {
+    return this.count;
+  }
+
+  public push(item: T): void {
+    if (this.capacity <= 0) return;
+
+    const index = (this.start + this.count) % this.capacity;
+    this.items[index] = item;
+
+    if (this.count < this.capacity) {
+      this.count++;
+    } else {
+      this.start = (this.start + 1) % this.capacity;
+    }
+  }
+
+  public toArray(): T[] {
+    const result: T[] = [];
+    for (let i = 0; i < this.count; i++) {
+      result.push(this.items[(this.start + i) % this.capacity] as T);
+    }
+    return result;
+  }
+
+  public clear(): void {
+    this.items = new Array(Math.max(0, this.capacity));
+    this.start = 0;
+    this.count = 0;
+  }
+}
@@ -0,0 +1,104 @@
+import { LogLevel, SamplingConfig, RateLimitConfig } from '../types';
+
+const hashToUnitInterval = (value: string): number => {
+  // FNV-1a, good enough to spread session IDs evenly across [0, 1)
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+};
+
+export class Sampler {
+  private readonly config: Required<SamplingConfig>;
+
+  constructor(config: SamplingConfig = {}) {
+    this.config = {
+      rate: 1,
+      levels: {},
+      sessionSticky: false,
+      ...config,
+    };
+  }
+
+  public getRate(level: LogLevel): number {
+    const rate = this.config.levels[level] ?? this.config.rate;
+    return Math.min(1, Math.max(0, rate));
+  }
+
+  public shouldSample(level: LogLevel, sessionId?: string): boolean {
+    const rate = this.getRate(level);
+    if (rate >= 1) return true;
+    if (rate <= 0) return false;
+
+    const roll = this.config.sessionSticky && sessionId
+      ? hashToUnitInterval(sessionId)
+      : Math.random();
+
+    return roll < rate;
+  }
+}
+
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+  suppressed: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  suppressed: number;
+}
+
+export class RateLimiter {
+  private readonly config: Required<RateLimitConfig>;
+  private buckets = new Map<string, TokenBucket>();
+
+  constructor(config: RateLimitConfig = {}) {
+    this.config = {
+      enabled: true,
+      burst: 10,
+      refillPerSecond: 1,
+      maxKeys: 1000,
+      key: (level, message) => `${level}:${message.replace(/\d+/g, '#')}`,
+      ...config,
+    };
+  }
+
+  public consume(level: LogLevel, message: string): RateLimitResult {
+    if (!this.config.enabled) return { allowed: true, suppressed: 0 };
+
+    const key = this.config.key(level, message);
+    const now = Date.now();
+    let bucket = this.buckets.get(key);
+
+    if (bucket) {
+      const elapsed = (now - bucket.updatedAt) / 1000;
+      bucket.tokens = Math.min(this.config.burst, bucket.tokens + elapsed * this.config.refillPerSecond);
+      bucket.updatedAt = now;
+      // Re-insert to keep the Map ordered by most recent use for eviction
+      this.buckets.delete(key);
+    } else {
+      bucket = { tokens: this.config.burst, updatedAt: now, suppressed: 0 };
+      if (this.buckets.size >= this.config.maxKeys) {
+        this.buckets.delete(this.buckets.keys().next().value as string);
+      }
+    }
+    this.buckets.set(key, bucket);
+
+    if (bucket.tokens < 1) {
+      bucket.suppressed++;
+      return { allowed: false, suppressed: bucket.suppressed };
+    }
+
+    bucket.tokens -= 1;
+    const suppressed = bucket.suppressed;
+    bucket.suppressed = 0;
+    return { allowed: true, suppressed };
+  }
+
+  public reset(): void {
+    this.buckets.clear();
+  }
+}
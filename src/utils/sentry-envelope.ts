@@ -0,0 +1,39 @@
+export interface SentryDsn {
+  publicKey: string;
+  projectId: string;
+  envelopeUrl: string;
+}
+
+/** Parses `https://<key>@<host>[/<path>]/<project>` into the envelope endpoint, or null when invalid. */
+export const parseDsn = (dsn?: string): SentryDsn | null => {
+  if (!dsn) return null;
+
+  let url: URL;
+  try {
+    url = new URL(dsn);
+  } catch (error) {
+    return null;
+  }
+
+  const segments = url.pathname.split('/').filter(Boolean);
+  const projectId = segments.pop();
+  if (!url.username || !projectId) return null;
+
+  const path = segments.length > 0 ? `/${segments.join('/')}` : '';
+  const auth = `sentry_key=${encodeURIComponent(url.username)}&sentry_version=7&sentry_client=hermes-trace`;
+
+  return {
+    publicKey: url.username,
+    projectId,
+    // Auth travels in the query string so no custom headers (and no CORS preflight) are needed
+    envelopeUrl: `${url.protocol}//${url.host}${path}/api/${projectId}/envelope/?${auth}`,
+  };
+};
+
+/** Serializes a single event as an envelope: envelope header, item header and payload, one per line. */
+export const createEventEnvelope = (event: Record<string, any> & { event_id: string }, dsn: string): string =>
+  [
+    JSON.stringify({ event_id: event.event_id, sent_at: new Date().toISOString(), dsn }),
+    JSON.stringify({ type: 'event' }),
+    JSON.stringify(event),
+  ].join('\n') + '\n';
@@ -0,0 +1,104 @@
+// Snappy block format: https://github.com/google/snappy/blob/main/format_description.txt
+const BLOCK_SIZE = 1 << 16;
+const HASH_BITS = 14;
+const MIN_MATCH_INPUT = 15;
+
+const load32 = (input: Uint8Array, index: number): number =>
+  input[index] | (input[index + 1] << 8) | (input[index + 2] << 16) | (input[index + 3] << 24);
+
+const hash = (value: number): number => Math.imul(value, 0x1e35a7bd) >>> (32 - HASH_BITS);
+
+const writeVarint = (value: number, out: number[]): void => {
+  while (value > 127) {
+    out.push((value & 127) | 128);
+    value >>>= 7;
+  }
+  out.push(value);
+};
+
+const emitLiteral = (input: Uint8Array, start: number, length: number, out: number[]): void => {
+  const n = length - 1;
+  if (n < 60) {
+    out.push(n << 2);
+  } else if (n < 0x100) {
+    out.push(60 << 2, n);
+  } else if (n < 0x10000) {
+    out.push(61 << 2, n & 0xff, n >>> 8);
+  } else {
+    out.push(62 << 2, n & 0xff, (n >>> 8) & 0xff, n >>> 16);
+  }
+
+  for (let i = start; i < start + length; i++) {
+    out.push(input[i]);
+  }
+};
+
+const emitCopyUpTo64 = (offset: number, length: number, out: number[]): void => {
+  if (length < 12 && offset < 2048) {
+    out.push(1 | ((length - 4) << 2) | ((offset >>> 8) << 5), offset & 0xff);
+  } else {
+    out.push(2 | ((length - 1) << 2), offset & 0xff, offset >>> 8);
+  }
+};
+
+const emitCopy = (offset: number, length: number, out: number[]): void => {
+  // Split so that no remaining piece is shorter than the 4-byte minimum copy
+  while (length >= 68) {
+    emitCopyUpTo64(offset, 64, out);
+    length -= 64;
+  }
+  if (length > 64) {
+    emitCopyUpTo64(offset, 60, out);
+    length -= 60;
+  }
+  emitCopyUpTo64(offset, length, out);
+};
+
+const compressBlock = (input: Uint8Array, start: number, end: number, out: number[]): void => {
+  let ip = start;
+  let nextEmit = start;
+
+  if (end - start >= MIN_MATCH_INPUT) {
+    const table = new Int32Array(1 << HASH_BITS).fill(-1);
+
+    while (ip <= end - 4) {
+      const current = load32(input, ip);
+      const key = hash(current);
+      const candidate = table[key];
+      table[key] = ip;
+
+      if (candidate < start || load32(input, candidate) !== current) {
+        ip++;
+        continue;
+      }
+
+      if (ip > nextEmit) {
+        emitLiteral(input, nextEmit, ip - nextEmit, out);
+      }
+
+      let matched = 4;
+      while (ip + matched < end && input[candidate + matched] === input[ip + matched]) {
+        matched++;
+      }
+      emitCopy(ip - candidate, matched, out);
+      ip += matched;
+      nextEmit = ip;
+    }
+  }
+
+  if (nextEmit < end) {
+    emitLiteral(input, nextEmit, end - nextEmit, out);
+  }
+};
+
+/** Compresses data in the snappy block format (not the framing format), as Loki's push API expects. */
+export const snappyCompress = (input: Uint8Array): Uint8Array => {
+  const out: number[] = [];
+  writeVarint(input.length, out);
+
+  for (let start = 0; start < input.length; start += BLOCK_SIZE) {
+    compressBlock(input, start, Math.min(start + BLOCK_SIZE, input.length), out);
+  }
+
+  return new Uint8Array(out);
+};
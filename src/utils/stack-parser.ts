@@ -0,0 +1,35 @@
+export interface StackFrame {
+  function: string;
+  filename: string;
+  lineno: number;
+  colno: number;
+  in_app: boolean;
+}
+
+// "    at handler (https://app.example.com/main.js:10:15)" or "    at https://app.example.com/main.js:10:15"
+const CHROME_FRAME = /^\s*at (?:(.*?) ?\()?(.+?):(\d+):(\d+)\)?\s*$/;
+// "handler@https://app.example.com/main.js:10:15" (Firefox and Safari)
+const GECKO_FRAME = /^\s*(.*?)@(.+?):(\d+):(\d+)\s*$/;
+
+/**
+ * Parses V8 and Gecko/WebKit stack traces into frames, innermost call first.
+ * Lines that match neither format (the error message, native frames) are skipped.
+ */
+export const parseStack = (stack?: string): StackFrame[] => {
+  if (!stack) return [];
+
+  return stack.split('\n').reduce<StackFrame[]>((frames, line) => {
+    const match = CHROME_FRAME.exec(line) || GECKO_FRAME.exec(line);
+    if (!match) return frames;
+
+    const [, name, filename, lineno, colno] = match;
+    frames.push({
+      function: name || '?',
+      filename,
+      lineno: Number(lineno),
+      colno: Number(colno),
+      in_app: !/\/node_modules\//.test(filename),
+    });
+    return frames;
+  }, []);
+};
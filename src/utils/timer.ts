@@ -0,0 +1,49 @@
+import { TimerOutcome } from '../types';
+
+export const now = (): number =>
+  typeof performance !== 'undefined' && typeof performance.now === 'function' ? performance.now() : Date.now();
+
+export const elapsedSince = (startTime: number): number => Math.round((now() - startTime) * 100) / 100;
+
+export type TimerCallback = (
+  timer: Timer,
+  outcome: TimerOutcome,
+  context: Record<string, any>,
+  error?: Error
+) => void;
+
+export class Timer {
+  public readonly startTime = now();
+  private finalDuration?: number;
+
+  constructor(
+    public readonly name: string,
+    public readonly context: Record<string, any> = {},
+    private readonly onEnd?: TimerCallback
+  ) {}
+
+  public get ended(): boolean {
+    return this.finalDuration !== undefined;
+  }
+
+  /** Elapsed time so far, or the final duration once the timer has ended. */
+  public get durationMs(): number {
+    return this.finalDuration ?? elapsedSince(this.startTime);
+  }
+
+  public end(context?: Record<string, any>): number {
+    return this.finish('success', context);
+  }
+
+  public fail(error?: Error, context?: Record<string, any>): number {
+    return this.finish('failure', context, error);
+  }
+
+  private finish(outcome: TimerOutcome, context?: Record<string, any>, error?: Error): number {
+    if (this.finalDuration !== undefined) return this.finalDuration;
+
+    this.finalDuration = elapsedSince(this.startTime);
+    this.onEnd?.(this, outcome, { ...this.context, ...context }, error);
+    return this.finalDuration;
+  }
+}
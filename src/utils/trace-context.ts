@@ -0,0 +1,185 @@
+const TRACEPARENT_REGEX = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+const randomHex = (bytes: number): string => {
+  const values = new Uint8Array(bytes);
+  if (typeof crypto !== 'undefined' && typeof crypto.getRandomValues === 'function') {
+    crypto.getRandomValues(values);
+  } else {
+    for (let i = 0; i < bytes; i++) {
+      values[i] = Math.floor(Math.random() * 256);
+    }
+  }
+  return Array.from(values, value => value.toString(16).padStart(2, '0')).join('');
+};
+
+const isAllZeros = (hex: string): boolean => /^0+$/.test(hex);
+
+export const generateTraceId = (): string => {
+  const id = randomHex(16);
+  return isAllZeros(id) ? generateTraceId() : id;
+};
+
+export const generateSpanId = (): string => {
+  const id = randomHex(8);
+  return isAllZeros(id) ? generateSpanId() : id;
+};
+
+export interface TraceParent {
+  traceId: string;
+  parentId: string;
+  sampled: boolean;
+}
+
+export const parseTraceparent = (header?: string | null): TraceParent | null => {
+  if (!header) return null;
+
+  const match = TRACEPARENT_REGEX.exec(header.trim().toLowerCase());
+  if (!match) return null;
+
+  const [, version, traceId, parentId, flags] = match;
+  if (version === 'ff' || isAllZeros(traceId) || isAllZeros(parentId)) return null;
+
+  return {
+    traceId,
+    parentId,
+    sampled: (parseInt(flags, 16) & 1) === 1,
+  };
+};
+
+export const formatTraceparent = (traceId: string, spanId: string, sampled = true): string =>
+  `00-${traceId}-${spanId}-${sampled ? '01' : '00'}`;
+
+/**
+ * Converts a hex ID to its unsigned decimal representation, as expected by
+ * Datadog for dd.trace_id / dd.span_id. Avoids BigInt for ES2018 targets.
+ */
+export const hexToDecimal = (hex: string): string => {
+  let digits = [0];
+
+  for (const char of hex) {
+    let carry = parseInt(char, 16);
+    for (let i = 0; i < digits.length; i++) {
+      const value = digits[i] * 16 + carry;
+      digits[i] = value % 10;
+      carry = Math.floor(value / 10);
+    }
+    while (carry > 0) {
+      digits.push(carry % 10);
+      carry = Math.floor(carry / 10);
+    }
+  }
+
+  while (digits.length > 1 && digits[digits.length - 1] === 0) {
+    digits = digits.slice(0, -1);
+  }
+
+  return digits.reverse().join('');
+};
+
+export class Span {
+  public readonly spanId: string;
+  public readonly startTime: number;
+  public endTime?: number;
+
+  constructor(
+    public readonly name: string,
+    public readonly traceId: string,
+    public readonly parentSpanId?: string,
+    public readonly sampled: boolean = true,
+    private readonly onEnd?: (span: Span) => void
+  ) {
+    this.spanId = generateSpanId();
+    this.startTime = Date.now();
+  }
+
+  public get ended(): boolean {
+    return this.endTime !== undefined;
+  }
+
+  public end(): void {
+    if (this.ended) return;
+    this.endTime = Date.now();
+    this.onEnd?.(this);
+  }
+
+  public toTraceparent(): string {
+    return formatTraceparent(this.traceId, this.spanId, this.sampled);
+  }
+}
+
+export interface TraceFields {
+  traceId: string;
+  spanId?: string;
+  parentSpanId?: string;
+}
+
+export class TraceContext {
+  private readonly traceId: string;
+  private readonly rootSpanId?: string;
+  private readonly sampled: boolean;
+  private activeSpans: Span[] = [];
+  private boundSpan?: Span;
+
+  constructor(traceparent?: string) {
+    const parent = parseTraceparent(traceparent);
+    this.traceId = parent?.traceId || generateTraceId();
+    this.rootSpanId = parent?.parentId;
+    this.sampled = parent ? parent.sampled : true;
+  }
+
+  public get activeSpan(): Span | undefined {
+    return this.activeSpans[this.activeSpans.length - 1] || this.boundSpan;
+  }
+
+  /**
+   * Returns a context that falls back to span whenever no other span is
+   * active, so work that continues after an await keeps its IDs without
+   * leaving the span active for everything else.
+   */
+  public bind(span: Span): TraceContext {
+    const context = new TraceContext(span.toTraceparent());
+    context.boundSpan = span;
+    return context;
+  }
+
+  public startSpan(name: string, parent: Span | string | undefined = this.activeSpan): Span {
+    if (typeof parent === 'string') {
+      const parsed = parseTraceparent(parent);
+      if (parsed) {
+        return new Span(name, parsed.traceId, parsed.parentId, parsed.sampled, span => this.deactivate(span));
+      }
+      parent = this.activeSpan;
+    }
+
+    if (parent) {
+      return new Span(name, parent.traceId, parent.spanId, parent.sampled, span => this.deactivate(span));
+    }
+
+    return new Span(name, this.traceId, this.rootSpanId, this.sampled, span => this.deactivate(span));
+  }
+
+  public activate(span: Span): void {
+    this.activeSpans.push(span);
+  }
+
+  public deactivate(span: Span): void {
+    const index = this.activeSpans.lastIndexOf(span);
+    if (index > -1) {
+      this.activeSpans.splice(index, 1);
+    }
+  }
+
+  public getFields(): TraceFields {
+    const span = this.activeSpan;
+    if (span) {
+      return { traceId: span.traceId, spanId: span.spanId, parentSpanId: span.parentSpanId };
+    }
+    return { traceId: this.traceId, ...(this.rootSpanId && { spanId: this.rootSpanId }) };
+  }
+
+  public getTraceparent(): string {
+    const span = this.activeSpan;
+    if (span) return span.toTraceparent();
+    return formatTraceparent(this.traceId, this.rootSpanId || generateSpanId(), this.sampled);
+  }
+}
@@ -1,5 +1,13 @@
 import { VueIntegration, createVuePlugin } from '../src/integrations/vue';
 import { HermesErrorBoundary } from '../src/integrations/react';
+import { NetworkIntegration } from '../src/integrations/network';
+import { GlobalErrorIntegration } from '../src/integrations/global-errors';
+import { ReactIntegration } from '../src/integrations/react';
+import { ConsoleIntegration } from '../src/integrations/console';
+import { PerformanceIntegration } from '../src/integrations/performance';
+import { ConsoleTransport } from '../src/transports/console';
+import { HermesHttpInterceptor } from '../src/integrations/angular';
+import { LokiTransport } from '../src/transports/loki';
 import { HermesTrace } from '../src/logger';
 import { LogLevel } from '../src/types';
 
@@ -273,4 +281,486 @@ describe('Framework Integrations', () => {
       );
     });
   });
+
+  describe('Network Integration', () => {
+    let integration: NetworkIntegration;
+    let fetchMock: jest.Mock;
+
+    beforeEach(() => {
+      fetchMock = jest.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        headers: new Headers({ 'content-length': '42' })
+      });
+      window.fetch = fetchMock;
+      integration = new NetworkIntegration({ tracePropagationTargets: ['https://api.example.com'] });
+      integration.install(logger);
+    });
+
+    afterEach(() => {
+      integration.uninstall();
+      window.fetch = global.fetch;
+    });
+
+    test('should log completed fetch requests with masked query params', async () => {
+      await window.fetch('/api/users?token=secret-value&page=2', { method: 'post', body: 'abc' });
+
+      expect(mockTransport.log).toHaveBeenCalledWith(
+        expect.objectContaining({
+          level: LogLevel.INFO,
+          tags: ['http-response'],
+          spanId: expect.any(String),
+          context: expect.objectContaining({
+            method: 'POST',
+            url: expect.stringContaining('token=***'),
+            status: 200,
+            durationMs: expect.any(Number),
+            requestSize: 3,
+            responseSize: 42
+          })
+        })
+      );
+    });
+
+    test('should record requests as breadcrumbs', async () => {
+      const crumbLogger = new HermesTrace({ autoFlush: false, breadcrumbs: { enabled: true, console: false } });
+      integration.uninstall();
+      integration.install(crumbLogger);
+
+      await window.fetch('/api/cart');
+
+      expect(crumbLogger.getBreadcrumbs()).toEqual([
+        expect.objectContaining({
+          type: 'http',
+          category: 'fetch',
+          level: LogLevel.INFO,
+          data: expect.objectContaining({ method: 'GET', status: 200 })
+        })
+      ]);
+      await crumbLogger.close();
+    });
+
+    test('should log failed requests at error level', async () => {
+      fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+
+      await expect(window.fetch('/api/users')).rejects.toThrow('Failed to fetch');
+
+      expect(mockTransport.log).toHaveBeenCalledWith(
+        expect.objectContaining({ level: LogLevel.ERROR, tags: ['http-error'] })
+      );
+    });
+
+    test('should log server errors at error level and client errors at warn level', async () => {
+      fetchMock.mockResolvedValueOnce({ ok: false, status: 503, headers: new Headers() });
+      fetchMock.mockResolvedValueOnce({ ok: false, status: 404, headers: new Headers() });
+
+      await window.fetch('/api/a');
+      await window.fetch('/api/b');
+
+      const levels = mockTransport.log.mock.calls.map(([entry]: any[]) => entry.level);
+      expect(levels).toEqual([LogLevel.ERROR, LogLevel.WARN]);
+    });
+
+    test('should inject traceparent only for allowed origins', async () => {
+      await window.fetch('https://api.example.com/orders');
+      await window.fetch('https://third-party.example.org/pixel');
+
+      const allowedHeaders = fetchMock.mock.calls[0][1].headers as Headers;
+      expect(allowedHeaders.get('traceparent')).toMatch(/^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/);
+      expect(fetchMock.mock.calls[1][1]).toBeUndefined();
+    });
+
+    test('should ignore requests made by transports', async () => {
+      const transport = new LokiTransport({ url: 'http://localhost:3100', flushInterval: 0 });
+      transport.log({ level: LogLevel.INFO, message: 'Shipped', timestamp: new Date() });
+
+      await transport.flush();
+      transport.close();
+
+      expect(fetchMock).toHaveBeenCalledWith('http://localhost:3100/loki/api/v1/push', expect.any(Object));
+      expect(mockTransport.log).not.toHaveBeenCalled();
+    });
+
+    test('should mask sensitive headers when captured', () => {
+      expect(integration.maskHeaders({ Authorization: 'Bearer abc', Accept: 'application/json' })).toEqual({
+        authorization: '***',
+        accept: 'application/json'
+      });
+    });
+
+    test('should restore fetch on uninstall', () => {
+      integration.uninstall();
+
+      expect(window.fetch).toBe(fetchMock);
+    });
+
+    test('should mask headers logged by the Angular interceptor', () => {
+      const interceptor = new HermesHttpInterceptor(logger);
+      const req = { method: 'GET', url: '/api', headers: new Headers({ Authorization: 'Bearer abc' }) };
+
+      interceptor.intercept(req, { handle: () => ({ pipe: jest.fn() }) });
+
+      expect(mockTransport.log).toHaveBeenCalledWith(
+        expect.objectContaining({
+          context: expect.objectContaining({ headers: { authorization: '***' } })
+        })
+      );
+    });
+  });
+
+  describe('Global Error Integration', () => {
+    let integration: GlobalErrorIntegration;
+
+    const dispatchError = (init: ErrorEventInit) => {
+      window.dispatchEvent(new ErrorEvent('error', init));
+    };
+
+    const dispatchRejection = (reason: any) => {
+      const event = new Event('unhandledrejection') as any;
+      event.reason = reason;
+      window.dispatchEvent(event);
+    };
+
+    beforeEach(() => {
+      integration = new GlobalErrorIntegration({ denyUrls: ['chrome-extension://'], ignoreErrors: [/ResizeObserver/] });
+      integration.install(logger);
+    });
+
+    afterEach(() => {
+      integration.uninstall();
+    });
+
+    test('should capture uncaught errors', () => {
+      const error = new Error('Boom');
+      dispatchError({ message: 'Boom', error, filename: 'https://app.example.com/main.js', lineno: 10, colno: 5 });
+
+      expect(mockTransport.log).toHaveBeenCalledWith(expect.objectContaining({
+        level: LogLevel.ERROR,
+        message: 'Global error caught',
+        error: expect.objectContaining({ message: 'Boom' }),
+        tags: ['global-error'],
+        context: expect.objectContaining({ lineno: 10, colno: 5 })
+      }));
+    });
+
+    test('should capture unhandled rejections', () => {
+      dispatchRejection('plain string reason');
+
+      expect(mockTransport.log).toHaveBeenCalledWith(expect.objectContaining({
+        message: 'Unhandled promise rejection',
+        tags: ['unhandled-rejection'],
+        context: expect.objectContaining({ reason: 'plain string reason' })
+      }));
+    });
+
+    test('should capture resource load failures', () => {
+      const img = document.createElement('img');
+      img.src = 'https://cdn.example.com/missing.png';
+      document.body.appendChild(img);
+
+      img.dispatchEvent(new Event('error'));
+      img.remove();
+
+      expect(mockTransport.log).toHaveBeenCalledWith(expect.objectContaining({
+        message: 'Failed to load img resource',
+        tags: ['resource-error'],
+        context: expect.objectContaining({ url: 'https://cdn.example.com/missing.png' })
+      }));
+    });
+
+    test('should capture CSP violations', () => {
+      const event = new Event('securitypolicyviolation') as any;
+      Object.assign(event, { blockedURI: 'https://evil.example.com/x.js', violatedDirective: 'script-src' });
+      document.dispatchEvent(event);
+
+      expect(mockTransport.log).toHaveBeenCalledWith(expect.objectContaining({
+        level: LogLevel.WARN,
+        tags: ['csp-violation'],
+        context: expect.objectContaining({ violatedDirective: 'script-src' })
+      }));
+    });
+
+    test('should filter noisy third-party errors', () => {
+      dispatchError({ message: 'Script error.' });
+      dispatchError({ message: 'Extension failed', filename: 'chrome-extension://abc/content.js' });
+      dispatchError({ message: 'ResizeObserver loop limit exceeded', filename: 'https://app.example.com/main.js' });
+
+      expect(mockTransport.log).not.toHaveBeenCalled();
+    });
+
+    test('should deduplicate repeated errors', () => {
+      const error = new Error('Same');
+      dispatchError({ message: 'Same', error, filename: 'https://app.example.com/main.js', lineno: 1 });
+      dispatchError({ message: 'Same', error, filename: 'https://app.example.com/main.js', lineno: 1 });
+      dispatchError({ message: 'Same', filename: 'https://app.example.com/main.js', lineno: 1 });
+
+      expect(mockTransport.log).toHaveBeenCalledTimes(1);
+    });
+
+    test('should remove listeners on uninstall', () => {
+      integration.uninstall();
+      dispatchError({ message: 'After uninstall', filename: 'https://app.example.com/main.js' });
+
+      expect(mockTransport.log).not.toHaveBeenCalled();
+    });
+
+    test('should remove React integration listeners on uninstall', () => {
+      integration.uninstall();
+      const reactIntegration = new ReactIntegration();
+      reactIntegration.install(logger);
+      reactIntegration.uninstall();
+
+      dispatchError({ message: 'After React uninstall', filename: 'https://app.example.com/main.js' });
+
+      expect(mockTransport.log).not.toHaveBeenCalled();
+    });
+
+    test('should pass global error options through the React integration', () => {
+      integration.uninstall();
+      const reactIntegration = new ReactIntegration({ ignoreErrors: [/ResizeObserver loop/] });
+      reactIntegration.install(logger);
+
+      dispatchError({ message: 'ResizeObserver loop limit exceeded', filename: 'https://app.example.com/main.js' });
+      reactIntegration.uninstall();
+
+      expect(mockTransport.log).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Console Integration', () => {
+    let integration: ConsoleIntegration;
+    let warnSpy: jest.SpyInstance;
+    let errorSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      errorSpy = jest.spyOn(console, 'error').mockImplementation();
+      integration = new ConsoleIntegration({ ignoreMessages: [/^Warning: componentWillMount/] });
+      integration.install(logger);
+    });
+
+    afterEach(() => {
+      integration.uninstall();
+      warnSpy.mockRestore();
+      errorSpy.mockRestore();
+    });
+
+    test('should forward console calls with format strings applied', () => {
+      console.warn('Retrying %s in %dms', 'upload', 250.7, { attempt: 2 });
+
+      expect(mockTransport.log).toHaveBeenCalledWith(expect.objectContaining({
+        level: LogLevel.WARN,
+        message: 'Retrying upload in 250ms {"attempt":2}',
+        tags: ['console'],
+        context: expect.objectContaining({ consoleMethod: 'warn', arguments: [{ attempt: 2 }] })
+      }));
+      expect(warnSpy).toHaveBeenCalledWith('Retrying %s in %dms', 'upload', 250.7, { attempt: 2 });
+    });
+
+    test('should attach Error arguments to the entry', () => {
+      const error = new TypeError('undefined is not a function');
+      console.error('Widget crashed:', error);
+
+      expect(mockTransport.log).toHaveBeenCalledWith(expect.objectContaining({
+        level: LogLevel.ERROR,
+        message: 'Widget crashed: TypeError: undefined is not a function',
+        error: expect.objectContaining({ message: 'undefined is not a function' })
+      }));
+    });
+
+    test('should skip ignored messages', () => {
+      console.warn('Warning: componentWillMount has been renamed');
+
+      expect(mockTransport.log).not.toHaveBeenCalled();
+    });
+
+    test('should not capture console transport output', () => {
+      integration.uninstall();
+      const consoleLogger = new HermesTrace({
+        transports: [new ConsoleTransport(), mockTransport],
+        autoFlush: false,
+        captureStackTrace: false
+      });
+      integration.install(consoleLogger);
+
+      consoleLogger.error('Payment failed');
+
+      expect(mockTransport.log).toHaveBeenCalledTimes(1);
+      expect(errorSpy).toHaveBeenCalled();
+    });
+
+    test('should not capture its own errors from a failed flush', async () => {
+      integration.uninstall();
+      (global.fetch as jest.Mock).mockRejectedValue(new Error('Network error'));
+      const transport = new LokiTransport({ url: 'http://localhost:3100', flushInterval: 0 });
+      const failingLogger = new HermesTrace({
+        transports: [transport, mockTransport],
+        autoFlush: false,
+        captureStackTrace: false
+      });
+      integration.install(failingLogger);
+
+      failingLogger.error('Payment failed');
+      await transport.flush();
+
+      expect(errorSpy).toHaveBeenCalledWith('Failed to flush entries for transport loki:', expect.any(Error));
+      expect(mockTransport.log).toHaveBeenCalledTimes(1);
+      expect(transport.getBufferedCount()).toBe(1);
+      transport.close();
+    });
+
+    test('should restore original console methods on uninstall', () => {
+      integration.uninstall();
+
+      expect(console.warn).toBe(warnSpy);
+      expect(console.error).toBe(errorSpy);
+
+      console.error('After uninstall');
+      expect(mockTransport.log).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Performance Integration', () => {
+    class MockPerformanceObserver {
+      static supportedEntryTypes = ['paint', 'largest-contentful-paint', 'layout-shift', 'event', 'first-input', 'longtask'];
+      static instances: MockPerformanceObserver[] = [];
+      type?: string;
+      disconnected = false;
+
+      constructor(private callback: (list: any) => void) {
+        MockPerformanceObserver.instances.push(this);
+      }
+
+      observe(options: { type: string }) {
+        this.type = options.type;
+      }
+
+      disconnect() {
+        this.disconnected = true;
+      }
+
+      emit(entries: any[]) {
+        this.callback({ getEntries: () => entries });
+      }
+    }
+
+    const emit = (type: string, entries: any[]) => {
+      MockPerformanceObserver.instances
+        .filter(observer => observer.type === type && !observer.disconnected)
+        .forEach(observer => observer.emit(entries));
+    };
+
+    const loggedContexts = (tag: string) => mockTransport.log.mock.calls
+      .map(([entry]: any[]) => entry)
+      .filter((entry: any) => entry.tags?.includes(tag));
+
+    let integration: PerformanceIntegration;
+    const originalGetEntriesByType = performance.getEntriesByType;
+
+    beforeEach(() => {
+      MockPerformanceObserver.instances = [];
+      (global as any).PerformanceObserver = MockPerformanceObserver;
+      (performance as any).getEntriesByType = jest.fn(() => [{
+        type: 'navigate',
+        domainLookupStart: 5,
+        domainLookupEnd: 25,
+        connectStart: 25,
+        secureConnectionStart: 40,
+        connectEnd: 60,
+        requestStart: 60,
+        responseStart: 950,
+        responseEnd: 1000,
+        domInteractive: 1200,
+        domContentLoadedEventEnd: 1300,
+        loadEventEnd: 1500,
+        transferSize: 2048
+      }]);
+      integration = new PerformanceIntegration();
+      integration.install(logger);
+    });
+
+    afterEach(() => {
+      integration.uninstall();
+      delete (global as any).PerformanceObserver;
+      (performance as any).getEntriesByType = originalGetEntriesByType;
+    });
+
+    test('should report FCP as a structured entry', () => {
+      emit('paint', [{ name: 'first-contentful-paint', startTime: 1234.4 }]);
+
+      expect(mockTransport.log).toHaveBeenCalledWith(expect.objectContaining({
+        level: LogLevel.INFO,
+        message: 'Web vital FCP',
+        sessionId: expect.any(String),
+        tags: ['web-vital'],
+        context: expect.objectContaining({ metric: 'FCP', value: 1234, rating: 'good', pageUrl: window.location.href })
+      }));
+    });
+
+    test('should report TTFB with a needs-improvement rating', () => {
+      expect(loggedContexts('web-vital')[0].context).toMatchObject({ metric: 'TTFB', value: 950, rating: 'needs-improvement' });
+    });
+
+    test('should warn about poor LCP when the page is hidden', () => {
+      emit('largest-contentful-paint', [
+        { startTime: 1000, renderTime: 1000 },
+        { startTime: 4500, renderTime: 4500, element: { tagName: 'IMG' }, url: 'https://cdn.example.com/hero.jpg' }
+      ]);
+      window.dispatchEvent(new Event('pagehide'));
+
+      expect(mockTransport.log).toHaveBeenCalledWith(expect.objectContaining({
+        level: LogLevel.WARN,
+        message: 'Web vital LCP is poor',
+        context: expect.objectContaining({ value: 4500, rating: 'poor', element: 'img', resourceUrl: 'https://cdn.example.com/hero.jpg' })
+      }));
+      expect(mockTransport.flush).toHaveBeenCalled();
+    });
+
+    test('should compute CLS from the worst session window', () => {
+      emit('layout-shift', [
+        { value: 0.05, startTime: 0, hadRecentInput: false },
+        { value: 0.05, startTime: 500, hadRecentInput: false },
+        { value: 0.5, startTime: 800, hadRecentInput: true },
+        { value: 0.12, startTime: 7000, hadRecentInput: false }
+      ]);
+      integration.reportPending();
+
+      const cls = loggedContexts('web-vital').find((entry: any) => entry.context.metric === 'CLS');
+      expect(cls.context).toMatchObject({ value: 0.12, rating: 'needs-improvement' });
+    });
+
+    test('should estimate INP from the slowest interactions', () => {
+      emit('event', [
+        { interactionId: 1, duration: 80 },
+        { interactionId: 1, duration: 120 },
+        { interactionId: 2, duration: 600 },
+        { duration: 900 }
+      ]);
+      integration.reportPending();
+
+      const inp = loggedContexts('web-vital').find((entry: any) => entry.context.metric === 'INP');
+      expect(inp).toMatchObject({ level: LogLevel.WARN, context: { value: 600, rating: 'poor', interactionCount: 2 } });
+    });
+
+    test('should report long tasks and navigation timing', async () => {
+      emit('longtask', [{ duration: 180.6, startTime: 2000 }]);
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(loggedContexts('long-task')[0].context).toMatchObject({ durationMs: 181, startTime: 2000 });
+      expect(loggedContexts('navigation-timing')[0].context).toMatchObject({
+        navigationType: 'navigate',
+        dnsMs: 20,
+        tlsMs: 20,
+        requestMs: 890,
+        loadMs: 1500,
+        transferSize: 2048
+      });
+    });
+
+    test('should disconnect observers on uninstall', () => {
+      integration.uninstall();
+
+      expect(MockPerformanceObserver.instances.every(observer => observer.disconnected)).toBe(true);
+    });
+  });
 });
\ No newline at end of file
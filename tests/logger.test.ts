@@ -1,6 +1,7 @@
 import { HermesTrace, createLogger } from '../src/logger';
-import { LogLevel } from '../src/types';
+import { LogLevel, LogEntry } from '../src/types';
 import { ConsoleTransport } from '../src/transports/console';
+import { Sampler, RateLimiter } from '../src/utils/sampling';
 
 // Mock window and navigator for browser environment tests
 (global as any).window = {
@@ -232,6 +233,579 @@ describe('HermesTrace Logger', () => {
     });
   });
 
+  describe('Global buffer limit', () => {
+    test('should shed entries from the largest transport buffer', () => {
+      const createBufferedTransport = (name: string) => {
+        const buffer: string[] = [];
+        return {
+          name,
+          config: {},
+          buffer,
+          log: jest.fn((entry) => { buffer.push(entry.message); }),
+          getBufferedCount: () => buffer.length,
+          dropBuffered: jest.fn((count: number) => buffer.splice(0, count).length)
+        };
+      };
+      const first = createBufferedTransport('first');
+      const second = createBufferedTransport('second');
+      second.buffer.push('existing', 'existing');
+
+      const cappedLogger = new HermesTrace({
+        transports: [first, second],
+        autoFlush: false,
+        maxBufferSize: 4
+      });
+
+      cappedLogger.info('one');
+      cappedLogger.info('two');
+
+      expect(second.dropBuffered).toHaveBeenCalledWith(2);
+      expect(first.buffer.length + second.buffer.length).toBe(4);
+    });
+  });
+
+  describe('Error context history', () => {
+    const createHistoryLogger = (errorContext: any) => new HermesTrace({
+      level: LogLevel.WARN,
+      transports: [mockTransport],
+      autoFlush: false,
+      captureStackTrace: false,
+      errorContext: { enabled: true, ...errorContext }
+    });
+
+    test('should attach below-threshold entries to errors', () => {
+      const historyLogger = createHistoryLogger({});
+
+      historyLogger.debug('Loading cart');
+      historyLogger.info('Cart loaded', { items: 3 });
+      expect(mockTransport.log).not.toHaveBeenCalled();
+
+      historyLogger.error('Checkout failed', new Error('boom'));
+
+      expect(mockTransport.log).toHaveBeenCalledTimes(1);
+      const entry = mockTransport.log.mock.calls[0][0];
+      expect(entry.history.map((item: any) => item.message)).toEqual(['Loading cart', 'Cart loaded']);
+    });
+
+    test('should keep only the most recent entries', () => {
+      const historyLogger = createHistoryLogger({ maxEntries: 2 });
+
+      historyLogger.debug('one');
+      historyLogger.debug('two');
+      historyLogger.debug('three');
+      historyLogger.error('failed');
+
+      const entry = mockTransport.log.mock.calls[0][0];
+      expect(entry.history.map((item: any) => item.message)).toEqual(['two', 'three']);
+    });
+
+    test('should drop entries older than max age', () => {
+      const historyLogger = createHistoryLogger({ maxAge: 1000 });
+      jest.useFakeTimers({ now: 0 });
+      historyLogger.debug('stale');
+      jest.setSystemTime(5000);
+      historyLogger.debug('fresh');
+      historyLogger.error('failed');
+      jest.useRealTimers();
+
+      const entry = mockTransport.log.mock.calls[0][0];
+      expect(entry.history.map((item: any) => item.message)).toEqual(['fresh']);
+    });
+
+    test('should emit history entries before the error in emit mode', () => {
+      const historyLogger = createHistoryLogger({ mode: 'emit' });
+
+      historyLogger.info('Step 1');
+      historyLogger.fatal('Crashed');
+
+      expect(mockTransport.log).toHaveBeenCalledTimes(2);
+      expect(mockTransport.log.mock.calls[0][0]).toMatchObject({
+        message: 'Step 1',
+        tags: ['error-history']
+      });
+      expect(mockTransport.log.mock.calls[1][0].message).toBe('Crashed');
+    });
+
+    test('should run emitted history entries through global processors', () => {
+      const historyLogger = createHistoryLogger({ mode: 'emit' });
+      historyLogger.use(entry => ({ ...entry, context: { ...entry.context, processed: true } }));
+
+      historyLogger.info('Step 1');
+      historyLogger.error('Payment failed');
+
+      expect(mockTransport.log.mock.calls[0][0]).toMatchObject({
+        message: 'Step 1',
+        context: { processed: true }
+      });
+      expect(mockTransport.log.mock.calls[1][0].context).toMatchObject({ processed: true });
+    });
+
+    test('should clear history after an error', () => {
+      const historyLogger = createHistoryLogger({});
+
+      historyLogger.debug('before first');
+      historyLogger.error('first');
+      historyLogger.error('second');
+
+      expect(mockTransport.log.mock.calls[1][0].history).toBeUndefined();
+    });
+  });
+
+  describe('Sampling and rate limiting', () => {
+    test('should apply per-level sample rates', () => {
+      const sampledLogger = new HermesTrace({
+        level: LogLevel.DEBUG,
+        transports: [mockTransport],
+        autoFlush: false,
+        captureStackTrace: false,
+        sampling: { levels: { [LogLevel.DEBUG]: 0 } }
+      });
+
+      sampledLogger.debug('Dropped');
+      sampledLogger.info('Kept');
+
+      expect(mockTransport.log).toHaveBeenCalledTimes(1);
+      expect(mockTransport.log).toHaveBeenCalledWith(expect.objectContaining({ message: 'Kept' }));
+    });
+
+    test('should make session-sticky decisions', () => {
+      const sampler = new Sampler({ rate: 0.5, sessionSticky: true });
+      const decisions = Array.from({ length: 20 }, () => sampler.shouldSample(LogLevel.INFO, 'session-a'));
+
+      expect(new Set(decisions).size).toBe(1);
+    });
+
+    test('should rate limit repeated message templates', () => {
+      const limitedLogger = new HermesTrace({
+        level: LogLevel.DEBUG,
+        transports: [mockTransport],
+        autoFlush: false,
+        captureStackTrace: false,
+        rateLimit: { burst: 2, refillPerSecond: 1 }
+      });
+
+      for (let i = 0; i < 10; i++) {
+        limitedLogger.warn(`Render ${i} took too long`);
+      }
+      limitedLogger.warn('Different warning');
+
+      expect(mockTransport.log).toHaveBeenCalledTimes(3);
+    });
+
+    test('should report suppressed entries once tokens refill', () => {
+      const limiter = new RateLimiter({ burst: 1, refillPerSecond: 1 });
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(0);
+
+      expect(limiter.consume(LogLevel.WARN, 'Slow render').allowed).toBe(true);
+      expect(limiter.consume(LogLevel.WARN, 'Slow render').allowed).toBe(false);
+      expect(limiter.consume(LogLevel.WARN, 'Slow render').allowed).toBe(false);
+
+      nowSpy.mockReturnValue(1000);
+      expect(limiter.consume(LogLevel.WARN, 'Slow render')).toEqual({ allowed: true, suppressed: 2 });
+      nowSpy.mockRestore();
+    });
+  });
+
+  describe('Deduplication', () => {
+    let dedupLogger: HermesTrace;
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      dedupLogger = new HermesTrace({
+        level: LogLevel.DEBUG,
+        transports: [mockTransport],
+        autoFlush: false,
+        captureStackTrace: false,
+        dedup: { enabled: true, window: 1000 }
+      });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    test('should collapse identical entries within the window', () => {
+      const error = new Error('Cannot read property');
+      for (let i = 0; i < 5; i++) {
+        dedupLogger.error('Render failed', error);
+      }
+      expect(mockTransport.log).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(1000);
+
+      expect(mockTransport.log).toHaveBeenCalledTimes(1);
+      expect(mockTransport.log).toHaveBeenCalledWith(expect.objectContaining({
+        message: 'Render failed',
+        count: 5,
+        firstSeen: expect.any(Date),
+        lastSeen: expect.any(Date)
+      }));
+    });
+
+    test('should keep distinct entries separate', () => {
+      dedupLogger.warn('Slow render');
+      dedupLogger.error('Slow render');
+      dedupLogger.error('Render failed', new Error('a'));
+      dedupLogger.error('Render failed', new Error('b'));
+
+      jest.advanceTimersByTime(1000);
+
+      expect(mockTransport.log).toHaveBeenCalledTimes(4);
+      mockTransport.log.mock.calls.forEach(([entry]: any[]) => {
+        expect(entry.count).toBeUndefined();
+      });
+    });
+
+    test('should release pending entries on flush', async () => {
+      dedupLogger.info('Clicked');
+      dedupLogger.info('Clicked');
+
+      await dedupLogger.flush();
+
+      expect(mockTransport.log).toHaveBeenCalledWith(expect.objectContaining({ count: 2 }));
+    });
+  });
+
+  describe('Processor pipeline', () => {
+    test('should enrich entries with sync processors', () => {
+      logger.use(entry => ({ ...entry, context: { ...entry.context, build: 'abc123' } }));
+
+      logger.info('Test message');
+
+      expect(mockTransport.log).toHaveBeenCalledWith(expect.objectContaining({
+        context: expect.objectContaining({ build: 'abc123' })
+      }));
+    });
+
+    test('should drop entries when a processor returns null', () => {
+      logger.use(entry => (entry.message.startsWith('noisy') ? null : entry));
+
+      logger.info('noisy message');
+      logger.info('useful message');
+
+      expect(mockTransport.log).toHaveBeenCalledTimes(1);
+      expect(mockTransport.log).toHaveBeenCalledWith(expect.objectContaining({ message: 'useful message' }));
+    });
+
+    test('should run processors by order then registration', () => {
+      const calls: string[] = [];
+      logger.use(() => { calls.push('second'); });
+      logger.use(() => { calls.push('third'); });
+      logger.use(() => { calls.push('first'); }, { order: -1 });
+
+      logger.info('Test message');
+
+      expect(calls).toEqual(['first', 'second', 'third']);
+    });
+
+    test('should wait for async processors before delivering', async () => {
+      logger.use(async entry => ({ ...entry, context: { ...entry.context, flag: true } }));
+
+      logger.info('Test message');
+      expect(mockTransport.log).not.toHaveBeenCalled();
+
+      await logger.flush();
+
+      expect(mockTransport.log).toHaveBeenCalledWith(expect.objectContaining({
+        context: expect.objectContaining({ flag: true })
+      }));
+    });
+
+    test('should apply per-transport processors only to that transport', () => {
+      const otherTransport = { name: 'other', config: {}, log: jest.fn() };
+      logger.addTransport(otherTransport);
+      logger.use(entry => ({ ...entry, userAgent: undefined }), { transport: 'other' });
+
+      logger.info('Test message');
+
+      expect(otherTransport.log.mock.calls[0][0].userAgent).toBeUndefined();
+      expect(mockTransport.log.mock.calls[0][0].userAgent).toBeDefined();
+    });
+
+    test('should keep the entry when a processor throws', () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      logger.use(() => {
+        throw new Error('Processor error');
+      });
+
+      logger.info('Test message');
+
+      expect(mockTransport.log).toHaveBeenCalled();
+      expect(consoleSpy).toHaveBeenCalledWith('Log processor failed:', expect.any(Error));
+      consoleSpy.mockRestore();
+    });
+
+    test('should unregister processors', () => {
+      const remove = logger.use(() => null);
+      remove();
+
+      logger.info('Test message');
+
+      expect(mockTransport.log).toHaveBeenCalled();
+    });
+  });
+
+  describe('Trace context', () => {
+    test('should stamp the trace ID on every entry', () => {
+      const tracedLogger = new HermesTrace({
+        transports: [mockTransport],
+        autoFlush: false,
+        traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01'
+      });
+
+      tracedLogger.info('Page loaded');
+
+      expect(mockTransport.log).toHaveBeenCalledWith(expect.objectContaining({
+        traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+        spanId: '00f067aa0ba902b7'
+      }));
+    });
+
+    test('should stamp span IDs on entries logged inside withSpan', () => {
+      let span: any;
+      logger.withSpan('checkout', activeSpan => {
+        span = activeSpan;
+        logger.info('Inside span');
+      });
+      logger.info('Outside span');
+
+      const [inside, outside] = mockTransport.log.mock.calls.map(([entry]: any[]) => entry);
+      expect(inside).toMatchObject({ traceId: span.traceId, spanId: span.spanId });
+      expect(outside.spanId).not.toBe(span.spanId);
+      expect(span.ended).toBe(true);
+    });
+
+    test('should only keep the span active for the synchronous part of async callbacks', async () => {
+      let span: any;
+      const done = logger.withSpan('load', async activeSpan => {
+        span = activeSpan;
+        logger.info('Before await');
+        await Promise.resolve();
+        logger.info('After await');
+      });
+      logger.info('Unrelated');
+      await done;
+
+      const [before, unrelated, after] = mockTransport.log.mock.calls.map(([entry]: any[]) => entry);
+      expect(before.spanId).toBe(span.spanId);
+      expect(unrelated.spanId).not.toBe(span.spanId);
+      expect(after.spanId).not.toBe(span.spanId);
+      expect(span.ended).toBe(true);
+    });
+
+    test('should keep span IDs after await through a span-bound logger', async () => {
+      let span: any;
+      await logger.withSpan('load', async activeSpan => {
+        span = activeSpan;
+        const log = logger.bindSpan(activeSpan);
+        await Promise.resolve();
+        log.info('Loaded');
+        log.withSpan('parse', () => log.info('Parsing'));
+      });
+
+      const [loaded, parsing] = mockTransport.log.mock.calls.map(([entry]: any[]) => entry);
+      expect(loaded).toMatchObject({ traceId: span.traceId, spanId: span.spanId });
+      expect(parsing.parentSpanId).toBe(span.spanId);
+    });
+
+    test('should bind spans without adding timers or listeners', () => {
+      const intervalSpy = jest.spyOn(global, 'setInterval');
+      const windowSpy = jest.spyOn(window, 'addEventListener');
+      const documentSpy = jest.spyOn(document, 'addEventListener');
+      const span = logger.startSpan('request');
+
+      const bound = [1, 2, 3].map(() => logger.bindSpan(span));
+      logger.setContext({ page: 'cart' });
+      bound[0].info('Bound message');
+
+      expect(intervalSpy).not.toHaveBeenCalled();
+      expect(windowSpy).not.toHaveBeenCalled();
+      expect(documentSpy).not.toHaveBeenCalled();
+      expect(mockTransport.log).toHaveBeenCalledWith(expect.objectContaining({
+        spanId: span.spanId,
+        context: { page: 'cart' }
+      }));
+      intervalSpy.mockRestore();
+      windowSpy.mockRestore();
+      documentSpy.mockRestore();
+    });
+
+    test('should share trace context with child loggers', () => {
+      const child = logger.createChild({ module: 'auth' });
+      const span = logger.startSpan('login');
+
+      logger.withSpan(span, () => child.info('Child message'));
+
+      expect(mockTransport.log).toHaveBeenCalledWith(expect.objectContaining({ spanId: span.spanId }));
+      expect(logger.getTraceparent()).toMatch(/^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/);
+    });
+  });
+
+  describe('Breadcrumbs', () => {
+    let crumbLogger: HermesTrace;
+
+    beforeEach(() => {
+      crumbLogger = new HermesTrace({
+        level: LogLevel.DEBUG,
+        transports: [mockTransport],
+        autoFlush: false,
+        captureStackTrace: false,
+        breadcrumbs: { enabled: true, maxBreadcrumbs: 3 }
+      });
+    });
+
+    afterEach(async () => {
+      await crumbLogger.close();
+      document.body.innerHTML = '';
+    });
+
+    test('should attach recent breadcrumbs to error entries only', () => {
+      crumbLogger.addBreadcrumb({ message: 'Opened cart', data: { items: 2 } });
+      crumbLogger.info('Cart rendered');
+      crumbLogger.error('Checkout failed', new Error('Payment declined'));
+
+      const [info, error] = mockTransport.log.mock.calls.map(([entry]: any[]) => entry);
+      expect(info.breadcrumbs).toBeUndefined();
+      expect(error.breadcrumbs).toEqual([
+        expect.objectContaining({ type: 'custom', message: 'Opened cart', data: { items: 2 }, timestamp: expect.any(Date) })
+      ]);
+    });
+
+    test('should keep only the most recent breadcrumbs', () => {
+      ['one', 'two', 'three', 'four'].forEach(message => crumbLogger.addBreadcrumb({ message }));
+
+      expect(crumbLogger.getBreadcrumbs().map(b => b.message)).toEqual(['two', 'three', 'four']);
+    });
+
+    test('should record clicks without reading element content', () => {
+      document.body.innerHTML = '<form id="login"><input class="field secret" name="password" value="hunter2"></form>';
+      (document.querySelector('input') as HTMLInputElement).click();
+
+      const [click] = crumbLogger.getBreadcrumbs();
+      expect(click).toMatchObject({ type: 'click', message: 'form#login > input.field.secret[name="password"]' });
+      expect(JSON.stringify(click)).not.toContain('hunter2');
+    });
+
+    test('should record history navigations', () => {
+      history.pushState({}, '', '/checkout');
+
+      expect(crumbLogger.getBreadcrumbs()[0]).toMatchObject({
+        type: 'navigation',
+        data: { to: expect.stringContaining('/checkout') }
+      });
+    });
+
+    test('should record console calls but not console transport output', () => {
+      const consoleSpy = jest.spyOn(console, 'info').mockImplementation();
+      const consoleLogger = new HermesTrace({
+        transports: [new ConsoleTransport()],
+        autoFlush: false,
+        breadcrumbs: { enabled: true }
+      });
+
+      console.info('User clicked retry');
+      consoleLogger.info('Logged through transport');
+
+      expect(consoleLogger.getBreadcrumbs()).toEqual([
+        expect.objectContaining({ type: 'console', level: LogLevel.INFO, message: 'User clicked retry' })
+      ]);
+
+      consoleLogger.close();
+      consoleSpy.mockRestore();
+    });
+
+    test('should mask sensitive breadcrumb data', () => {
+      crumbLogger.addBreadcrumb({ message: 'Login', data: { password: 'secret123' } });
+
+      expect(crumbLogger.getBreadcrumbs()[0].data).toEqual({ password: '***' });
+    });
+
+    test('should ignore breadcrumbs when disabled', () => {
+      logger.addBreadcrumb({ message: 'Ignored' });
+      logger.error('Failure');
+
+      expect(logger.getBreadcrumbs()).toEqual([]);
+      expect(mockTransport.log.mock.calls[0][0].breadcrumbs).toBeUndefined();
+    });
+  });
+
+  describe('Timers', () => {
+    let nowSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      let clock = 1000;
+      nowSpy = jest.spyOn(performance, 'now').mockImplementation(() => {
+        clock += 12.5;
+        return clock;
+      });
+    });
+
+    afterEach(() => {
+      nowSpy.mockRestore();
+    });
+
+    test('should log duration and outcome when a timer ends', () => {
+      const timer = logger.startTimer('render', { component: 'Cart' });
+      const duration = timer.end({ items: 3 });
+
+      expect(duration).toBe(12.5);
+      expect(timer.end()).toBe(12.5);
+      expect(mockTransport.log).toHaveBeenCalledTimes(1);
+      expect(mockTransport.log).toHaveBeenCalledWith(expect.objectContaining({
+        level: LogLevel.INFO,
+        message: 'render completed',
+        tags: ['timer'],
+        context: { component: 'Cart', items: 3, timer: 'render', durationMs: 12.5, outcome: 'success' }
+      }));
+    });
+
+    test('should log failed timers at error level', () => {
+      const error = new Error('Timeout');
+      logger.startTimer('upload').fail(error);
+
+      expect(mockTransport.log).toHaveBeenCalledWith(expect.objectContaining({
+        level: LogLevel.ERROR,
+        message: 'upload failed',
+        error: expect.objectContaining({ message: 'Timeout' }),
+        context: expect.objectContaining({ outcome: 'failure', durationMs: 12.5 })
+      }));
+    });
+
+    test('should measure async functions inside a span', async () => {
+      const result = await logger.measure('load', async () => {
+        logger.info('Loading');
+        return 42;
+      });
+
+      const [inner, timing] = mockTransport.log.mock.calls.map(([entry]: any[]) => entry);
+      expect(result).toBe(42);
+      expect(timing).toMatchObject({ message: 'load completed', context: { outcome: 'success' } });
+      expect(timing.spanId).toBe(inner.spanId);
+    });
+
+    test('should record rejected measurements as failures', async () => {
+      await expect(logger.measure('save', () => Promise.reject(new Error('Conflict')))).rejects.toThrow('Conflict');
+
+      expect(mockTransport.log).toHaveBeenCalledWith(expect.objectContaining({
+        level: LogLevel.ERROR,
+        message: 'save failed',
+        context: expect.objectContaining({ outcome: 'failure' })
+      }));
+    });
+
+    test('should share named timers with child loggers', () => {
+      logger.time('checkout');
+      const child = logger.createChild({ module: 'payments' });
+
+      expect(child.timeEnd('checkout')).toBe(12.5);
+      expect(logger.timeEnd('checkout')).toBeUndefined();
+      expect(mockTransport.log).toHaveBeenCalledWith(expect.objectContaining({
+        message: 'checkout completed',
+        context: expect.objectContaining({ module: 'payments', timer: 'checkout' })
+      }));
+    });
+  });
+
   describe('Child logger creation', () => {
     test('should create child logger with inherited config', () => {
       logger.setContext({ parent: 'context' });
@@ -248,6 +822,28 @@ describe('HermesTrace Logger', () => {
         })
       );
     });
+
+    test('should share the session and its sampling decision with the parent', () => {
+      const sampledLogger = new HermesTrace({
+        transports: [mockTransport],
+        autoFlush: false,
+        captureStackTrace: false,
+        sampling: { rate: 0.5, sessionSticky: true }
+      });
+      const child = sampledLogger.createChild({ module: 'checkout' });
+
+      for (let i = 0; i < 10; i++) {
+        sampledLogger.info('Parent message');
+        child.info('Child message');
+      }
+
+      const entries: LogEntry[] = mockTransport.log.mock.calls.map(([entry]: [LogEntry]) => entry);
+      const parentCount = entries.filter(entry => entry.message === 'Parent message').length;
+      const childCount = entries.filter(entry => entry.message === 'Child message').length;
+      expect(childCount).toBe(parentCount);
+      entries.forEach(entry => expect(entry.sessionId).toBe(sampledLogger['sessionId']));
+      expect(child['sessionId']).toBe(sampledLogger['sessionId']);
+    });
   });
 
   describe('Session management', () => {
@@ -292,6 +888,18 @@ describe('HermesTrace Logger', () => {
       consoleSpy.mockRestore();
     });
 
+    test('should flush transports when the page becomes hidden', () => {
+      const unloadTransport = { name: 'unload', config: {}, log: jest.fn(), flushOnUnload: jest.fn() };
+      logger.addTransport(unloadTransport);
+
+      Object.defineProperty(document, 'visibilityState', { value: 'hidden', configurable: true });
+      document.dispatchEvent(new Event('visibilitychange'));
+      delete (document as any).visibilityState;
+
+      expect(unloadTransport.flushOnUnload).toHaveBeenCalled();
+      expect(mockTransport.flush).toHaveBeenCalled();
+    });
+
     test('should close all transports', async () => {
       await logger.close();
 
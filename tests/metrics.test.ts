@@ -0,0 +1,191 @@
+import { MetricsRegistry } from '../src/utils/metrics';
+import { toOtlpMetrics } from '../src/utils/otlp';
+import { OtlpMetricsExporter } from '../src/transports/otlp-metrics';
+import { HermesTrace } from '../src/logger';
+import { MetricPoint } from '../src/types';
+
+describe('Metrics', () => {
+  describe('MetricsRegistry aggregation', () => {
+    test('should sum counters per tag set', () => {
+      const registry = new MetricsRegistry({ prefix: 'app.', defaultTags: { env: 'test' } });
+      const clicks = registry.counter('clicks', { page: 'cart' });
+
+      clicks.add();
+      clicks.add(2);
+      clicks.add(1, { page: 'home' });
+      clicks.add(-5);
+
+      const points = registry.collect();
+      expect(points).toHaveLength(2);
+      expect(points[0]).toMatchObject({ name: 'app.clicks', type: 'counter', value: 3, tags: { env: 'test', page: 'cart' } });
+      expect(points[1]).toMatchObject({ value: 1, tags: { env: 'test', page: 'home' } });
+    });
+
+    test('should keep the last gauge value', () => {
+      const registry = new MetricsRegistry();
+      const queue = registry.gauge('queue.size');
+
+      queue.set(5);
+      queue.set(2);
+
+      expect(registry.collect()[0]).toMatchObject({ type: 'gauge', value: 2 });
+    });
+
+    test('should bucket histogram values', () => {
+      const registry = new MetricsRegistry();
+      const latency = registry.histogram('latency', {}, [100, 500]);
+
+      [50, 120, 480, 900].forEach(value => latency.record(value));
+
+      expect(registry.collect()[0]).toMatchObject({
+        type: 'histogram',
+        count: 4,
+        sum: 1550,
+        min: 50,
+        max: 900,
+        bucketBounds: [100, 500],
+        bucketCounts: [1, 2, 1]
+      });
+    });
+
+    test('should reset series after each collection', () => {
+      const registry = new MetricsRegistry();
+      registry.counter('events').add();
+
+      registry.collect();
+
+      expect(registry.collect()).toEqual([]);
+    });
+
+    test('should cap the number of series', () => {
+      const registry = new MetricsRegistry({ maxSeries: 2 });
+      ['a', 'b', 'c'].forEach(id => registry.counter('requests', { id }).add());
+
+      expect(registry.collect()).toHaveLength(2);
+    });
+
+    test('should report exporter failures without throwing', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      const healthy = { name: 'healthy', sendMetrics: jest.fn() };
+      const failing = { name: 'failing', sendMetrics: jest.fn().mockRejectedValue(new Error('Down')) };
+      const registry = new MetricsRegistry({ exporters: [failing, healthy] });
+
+      registry.counter('events').add();
+      await registry.flush();
+
+      expect(healthy.sendMetrics).toHaveBeenCalledWith([expect.objectContaining({ name: 'events' })]);
+      expect(consoleSpy).toHaveBeenCalledWith('Failed to send metrics to failing:', expect.any(Error));
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('OTLP metrics payload', () => {
+    const startTime = new Date('2023-01-01T00:00:00Z');
+    const timestamp = new Date('2023-01-01T00:00:10Z');
+
+    test('should map instruments to OTLP metric types', () => {
+      const points: MetricPoint[] = [
+        { name: 'clicks', type: 'counter', tags: { page: 'cart' }, startTime, timestamp, value: 3 },
+        { name: 'queue', type: 'gauge', tags: {}, startTime, timestamp, value: 2 },
+        {
+          name: 'latency', type: 'histogram', tags: {}, startTime, timestamp,
+          count: 2, sum: 300, min: 100, max: 200, bucketBounds: [150], bucketCounts: [1, 1]
+        }
+      ];
+
+      const payload = toOtlpMetrics(points, { 'service.name': 'web' });
+      const [resourceMetrics] = payload.resourceMetrics;
+      const [clicks, queue, latency] = resourceMetrics.scopeMetrics[0].metrics;
+
+      expect(resourceMetrics.resource.attributes).toEqual([{ key: 'service.name', value: { stringValue: 'web' } }]);
+      expect(clicks).toEqual({
+        name: 'clicks',
+        sum: {
+          aggregationTemporality: 1,
+          isMonotonic: true,
+          dataPoints: [{
+            attributes: [{ key: 'page', value: { stringValue: 'cart' } }],
+            startTimeUnixNano: '1672531200000000000',
+            timeUnixNano: '1672531210000000000',
+            asDouble: 3
+          }]
+        }
+      });
+      expect(queue.gauge.dataPoints[0].asDouble).toBe(2);
+      expect(latency.histogram.dataPoints[0]).toMatchObject({
+        count: '2',
+        sum: 300,
+        bucketCounts: ['1', '1'],
+        explicitBounds: [150]
+      });
+    });
+
+    test('should post the payload with the exporter', async () => {
+      const fetchMock = global.fetch as jest.MockedFunction<typeof fetch>;
+      fetchMock.mockResolvedValue({ ok: true, status: 200 } as Response);
+      const exporter = new OtlpMetricsExporter({
+        url: 'https://collector.example.com/v1/metrics',
+        headers: { Authorization: 'Bearer token' }
+      });
+
+      await exporter.sendMetrics([{ name: 'clicks', type: 'counter', tags: {}, startTime, timestamp, value: 1 }]);
+
+      expect(fetchMock).toHaveBeenCalledWith('https://collector.example.com/v1/metrics', expect.objectContaining({
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: 'Bearer token' }
+      }));
+      expect(JSON.parse(fetchMock.mock.calls[0][1]?.body as string).resourceMetrics).toHaveLength(1);
+    });
+  });
+
+  describe('Logger instruments', () => {
+    test('should send aggregated metrics to metrics-capable transports on flush', async () => {
+      const metricsTransport = { name: 'metrics', config: {}, log: jest.fn(), sendMetrics: jest.fn() };
+      const logTransport = { name: 'logs', config: {}, log: jest.fn() };
+      const logger = new HermesTrace({ transports: [metricsTransport, logTransport], autoFlush: false });
+
+      logger.counter('checkout.started').add();
+      logger.createChild({ module: 'cart' }).counter('checkout.started').add();
+      await logger.flushMetrics();
+
+      expect(metricsTransport.sendMetrics).toHaveBeenCalledWith([
+        expect.objectContaining({ name: 'checkout.started', value: 2 })
+      ]);
+      expect(logTransport.log).not.toHaveBeenCalled();
+    });
+
+    test('should keep metrics on their own interval when logs are flushed', async () => {
+      const metricsTransport = { name: 'metrics', config: {}, log: jest.fn(), sendMetrics: jest.fn() };
+      const logger = new HermesTrace({ transports: [metricsTransport], autoFlush: false });
+
+      logger.counter('checkout.started').add();
+      await logger.flush();
+      expect(metricsTransport.sendMetrics).not.toHaveBeenCalled();
+
+      logger.flushOnUnload();
+      expect(metricsTransport.sendMetrics).toHaveBeenCalledWith([
+        expect.objectContaining({ name: 'checkout.started', value: 1 })
+      ]);
+    });
+
+    test('should send pending metrics on close', async () => {
+      const metricsTransport = { name: 'metrics', config: {}, log: jest.fn(), sendMetrics: jest.fn() };
+      const logger = new HermesTrace({ transports: [metricsTransport], autoFlush: false });
+
+      logger.gauge('cart.items').set(3);
+      await logger.close();
+
+      expect(metricsTransport.sendMetrics).toHaveBeenCalledWith([expect.objectContaining({ name: 'cart.items', value: 3 })]);
+    });
+
+    test('should ignore instruments when metrics are disabled', async () => {
+      const metricsTransport = { name: 'metrics', config: {}, log: jest.fn(), sendMetrics: jest.fn() };
+      const logger = new HermesTrace({ transports: [metricsTransport], autoFlush: false, metrics: { enabled: false } });
+
+      logger.histogram('latency').record(120);
+      await logger.flushMetrics();
+
+      expect(metricsTransport.sendMetrics).not.toHaveBeenCalled();
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,85 @@
+import {
+  TraceContext,
+  parseTraceparent,
+  formatTraceparent,
+  hexToDecimal,
+  generateTraceId,
+  generateSpanId
+} from '../src/utils/trace-context';
+
+const TRACEPARENT = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+
+describe('Trace Context', () => {
+  describe('traceparent parsing', () => {
+    test('should parse a valid traceparent header', () => {
+      expect(parseTraceparent(TRACEPARENT)).toEqual({
+        traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+        parentId: '00f067aa0ba902b7',
+        sampled: true
+      });
+    });
+
+    test('should reject malformed or invalid headers', () => {
+      expect(parseTraceparent('garbage')).toBeNull();
+      expect(parseTraceparent('00-00000000000000000000000000000000-00f067aa0ba902b7-01')).toBeNull();
+      expect(parseTraceparent('ff-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01')).toBeNull();
+      expect(parseTraceparent(undefined)).toBeNull();
+    });
+
+    test('should format a traceparent header', () => {
+      expect(formatTraceparent('4bf92f3577b34da6a3ce929d0e0e4736', '00f067aa0ba902b7', false))
+        .toBe('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-00');
+    });
+  });
+
+  describe('ID generation', () => {
+    test('should generate IDs of the correct length', () => {
+      expect(generateTraceId()).toMatch(/^[0-9a-f]{32}$/);
+      expect(generateSpanId()).toMatch(/^[0-9a-f]{16}$/);
+    });
+
+    test('should convert hex IDs to decimal', () => {
+      expect(hexToDecimal('00f067aa0ba902b7')).toBe('67667974448284343');
+      expect(hexToDecimal('ffffffffffffffff')).toBe('18446744073709551615');
+      expect(hexToDecimal('0')).toBe('0');
+    });
+  });
+
+  describe('Span management', () => {
+    test('should continue an incoming trace', () => {
+      const context = new TraceContext(TRACEPARENT);
+      const span = context.startSpan('checkout');
+
+      expect(span.traceId).toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+      expect(span.parentSpanId).toBe('00f067aa0ba902b7');
+      expect(context.getFields()).toEqual({
+        traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+        spanId: '00f067aa0ba902b7'
+      });
+    });
+
+    test('should nest active spans and restore on end', () => {
+      const context = new TraceContext();
+      const parent = context.startSpan('parent');
+      context.activate(parent);
+      const child = context.startSpan('child');
+      context.activate(child);
+
+      expect(child.parentSpanId).toBe(parent.spanId);
+      expect(context.getTraceparent()).toBe(child.toTraceparent());
+
+      child.end();
+      expect(context.activeSpan).toBe(parent);
+    });
+
+    test('should fall back to the bound span when nothing else is active', () => {
+      const context = new TraceContext();
+      const span = context.startSpan('request');
+      const bound = context.bind(span);
+
+      expect(context.activeSpan).toBeUndefined();
+      expect(bound.getFields()).toEqual({ traceId: span.traceId, spanId: span.spanId, parentSpanId: undefined });
+      expect(bound.startSpan('child').parentSpanId).toBe(span.spanId);
+    });
+  });
+});
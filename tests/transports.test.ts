@@ -2,7 +2,17 @@ import { ConsoleTransport } from '../src/transports/console';
 import { LokiTransport } from '../src/transports/loki';
 import { DatadogTransport } from '../src/transports/datadog';
 import { SentryTransport } from '../src/transports/sentry';
-import { LogLevel, LogEntry } from '../src/types';
+import { parseStack } from '../src/utils/stack-parser';
+import { OtlpTransport } from '../src/transports/otlp';
+import { HttpTransport } from '../src/transports/http';
+import { ElasticsearchTransport } from '../src/transports/elasticsearch';
+import { SplunkHecTransport } from '../src/transports/splunk';
+import { OfflineQueue, MemoryQueueStorage } from '../src/utils/offline-queue';
+import { RetryPolicy, CircuitBreaker } from '../src/utils/retry';
+import { LogLevel, LogEntry, LokiConfig, OverflowPolicy } from '../src/types';
+import { CompressionStream as NodeCompressionStream } from 'stream/web';
+import { TextEncoder as NodeTextEncoder } from 'util';
+import { gunzipSync } from 'zlib';
 
 const mockLogEntry: LogEntry = {
   level: LogLevel.INFO,
@@ -15,6 +25,49 @@ const mockLogEntry: LogEntry = {
   userAgent: 'Test Browser'
 };
 
+// Reference decoder for the snappy block format, used to check LokiTransport's protobuf bodies
+const snappyDecompress = (input: Uint8Array): Uint8Array => {
+  let pos = 0;
+  let length = 0;
+  for (let shift = 0; ; shift += 7) {
+    const byte = input[pos++];
+    length |= (byte & 127) << shift;
+    if (byte < 128) break;
+  }
+
+  const output = new Uint8Array(length);
+  let op = 0;
+  while (pos < input.length) {
+    const tag = input[pos++];
+    if ((tag & 3) === 0) {
+      let literalLength = tag >>> 2;
+      if (literalLength >= 60) {
+        const bytes = literalLength - 59;
+        literalLength = 0;
+        for (let i = 0; i < bytes; i++) literalLength |= input[pos++] << (8 * i);
+      }
+      literalLength += 1;
+      output.set(input.subarray(pos, pos + literalLength), op);
+      pos += literalLength;
+      op += literalLength;
+      continue;
+    }
+
+    let copyLength: number;
+    let offset: number;
+    if ((tag & 3) === 1) {
+      copyLength = ((tag >>> 2) & 7) + 4;
+      offset = ((tag >>> 5) << 8) | input[pos++];
+    } else {
+      copyLength = (tag >>> 2) + 1;
+      offset = input[pos] | (input[pos + 1] << 8);
+      pos += 2;
+    }
+    for (let i = 0; i < copyLength; i++, op++) output[op] = output[op - offset];
+  }
+  return output;
+};
+
 describe('Transport Tests', () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -94,6 +147,10 @@ describe('Transport Tests', () => {
       });
     });
 
+    afterEach(() => {
+      transport.close();
+    });
+
     test('should buffer log entries', () => {
       transport.log(mockLogEntry);
       
@@ -129,6 +186,173 @@ describe('Transport Tests', () => {
       expect(payload.streams).toHaveLength(2); // Different levels create different streams
     });
 
+    test('should promote only allow-listed fields to labels', async () => {
+      const allowList = new LokiTransport({
+        url: 'http://localhost:3100',
+        labels: { service: 'test-service' },
+        labelFields: ['level', 'context.route'],
+        flushInterval: 0
+      });
+
+      allowList.log({ ...mockLogEntry, userId: 'user-1', context: { route: '/checkout' } });
+      await allowList.flush();
+
+      const { streams } = JSON.parse(fetchMock.mock.calls[0][1]?.body as string);
+      expect(streams[0].stream).toEqual({ service: 'test-service', level: 'info', route: '/checkout' });
+      expect(JSON.parse(streams[0].values[0][1])).toMatchObject({ message: 'Test message', sessionId: 'test-session' });
+      allowList.close();
+    });
+
+    test('should send non-label fields as structured metadata', async () => {
+      const metadataTransport = new LokiTransport({
+        url: 'http://localhost:3100',
+        labelFields: ['level'],
+        structuredMetadata: true,
+        flushInterval: 0
+      });
+
+      metadataTransport.log({ ...mockLogEntry, traceId: 'trace-1' });
+      await metadataTransport.flush();
+
+      const { streams } = JSON.parse(fetchMock.mock.calls[0][1]?.body as string);
+      const [, line, metadata] = streams[0].values[0];
+      expect(metadata).toEqual({
+        tags: 'test',
+        sessionId: 'test-session',
+        url: 'https://example.com',
+        traceId: 'trace-1'
+      });
+      expect(JSON.parse(line)).not.toHaveProperty('sessionId');
+      metadataTransport.close();
+    });
+
+    test('should only use the level as a stream label by default', async () => {
+      const defaults = new LokiTransport({ url: 'http://localhost:3100', flushInterval: 0 });
+
+      defaults.log({ ...mockLogEntry, userId: 'user-1' });
+      await defaults.flush();
+
+      const { streams } = JSON.parse(fetchMock.mock.calls[0][1]?.body as string);
+      expect(streams[0].stream).toEqual({ service: 'hermes-trace', level: 'info' });
+      expect(JSON.parse(streams[0].values[0][1])).toMatchObject({ userId: 'user-1', url: 'https://example.com' });
+      defaults.close();
+    });
+
+    test('should keep fields that are not labels in the log line', async () => {
+      const levelOnly = new LokiTransport({ url: 'http://localhost:3100', labelFields: ['level'], flushInterval: 0 });
+
+      levelOnly.log({ ...mockLogEntry, userId: 'user-1' });
+      await levelOnly.flush();
+
+      const { streams } = JSON.parse(fetchMock.mock.calls[0][1]?.body as string);
+      expect(streams[0].stream).toEqual({ service: 'hermes-trace', level: 'info' });
+      expect(JSON.parse(streams[0].values[0][1])).toMatchObject({
+        message: 'Test message',
+        tags: 'test',
+        userId: 'user-1',
+        sessionId: 'test-session',
+        url: 'https://example.com'
+      });
+      levelOnly.close();
+    });
+
+    test('should demote labels that exceed the cardinality limit', async () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      const guarded = new LokiTransport({
+        url: 'http://localhost:3100',
+        labelFields: ['level', 'userId'],
+        maxLabelValues: 2,
+        flushInterval: 0
+      });
+
+      ['a', 'b', 'c', 'a'].forEach(userId => guarded.log({ ...mockLogEntry, userId }));
+      await guarded.flush();
+
+      const { streams } = JSON.parse(fetchMock.mock.calls[0][1]?.body as string);
+      expect(streams.map((stream: any) => stream.stream.userId)).toEqual(['a', 'b', undefined]);
+      const demotedLines = streams[2].values.map(([, line]: [string, string]) => JSON.parse(line).userId);
+      expect(demotedLines).toEqual(['c', 'a']);
+      expect(warnSpy).toHaveBeenCalledTimes(1);
+      warnSpy.mockRestore();
+      guarded.close();
+    });
+
+    test('should gzip JSON pushes when requested', async () => {
+      const globals = global as any;
+      const originalEncoder = globals.TextEncoder;
+      globals.CompressionStream = NodeCompressionStream;
+      globals.TextEncoder = NodeTextEncoder;
+      const gzipTransport = new LokiTransport({ url: 'http://localhost:3100', encoding: 'gzip', flushInterval: 0 });
+
+      try {
+        gzipTransport.log(mockLogEntry);
+        await gzipTransport.flush();
+      } finally {
+        delete globals.CompressionStream;
+        globals.TextEncoder = originalEncoder;
+      }
+
+      const init = fetchMock.mock.calls[0][1];
+      expect(init?.headers).toMatchObject({ 'Content-Type': 'application/json', 'Content-Encoding': 'gzip' });
+      const payload = JSON.parse(gunzipSync(Buffer.from(init?.body as Uint8Array)).toString());
+      expect(payload.streams[0].values[0][1]).toContain('Test message');
+      gzipTransport.close();
+    });
+
+    test('should push snappy-compressed protobuf when requested', async () => {
+      const globals = global as any;
+      const originalEncoder = globals.TextEncoder;
+      globals.TextEncoder = NodeTextEncoder;
+      const protoTransport = new LokiTransport({
+        url: 'http://localhost:3100',
+        labels: { service: 'test-service' },
+        labelFields: ['level'],
+        encoding: 'protobuf',
+        flushInterval: 0
+      });
+
+      try {
+        for (let i = 0; i < 20; i++) {
+          protoTransport.log({ ...mockLogEntry, message: 'Repeated checkout failure message' });
+        }
+        await protoTransport.flush();
+      } finally {
+        globals.TextEncoder = originalEncoder;
+      }
+
+      const init = fetchMock.mock.calls[0][1];
+      expect(init?.headers).toMatchObject({ 'Content-Type': 'application/x-protobuf' });
+      expect(init?.headers).not.toHaveProperty('Content-Encoding');
+
+      const compressed = init?.body as Uint8Array;
+      const decoded = snappyDecompress(compressed);
+      const text = Buffer.from(decoded).toString('utf8');
+      expect(compressed.length).toBeLessThan(decoded.length / 4);
+      expect(decoded[0]).toBe(0x0a);
+      expect(text).toContain('{service="test-service", level="info"}');
+      expect(text.split('Repeated checkout failure message')).toHaveLength(21);
+      protoTransport.close();
+    });
+
+    test('should fall back to JSON when compression is unavailable', async () => {
+      const gzipTransport = new LokiTransport({ url: 'http://localhost:3100', encoding: 'gzip', flushInterval: 0 });
+
+      gzipTransport.log(mockLogEntry);
+      await gzipTransport.flush();
+
+      const init = fetchMock.mock.calls[0][1];
+      expect(init?.headers).not.toHaveProperty('Content-Encoding');
+      expect(JSON.parse(init?.body as string).streams).toHaveLength(1);
+      gzipTransport.close();
+    });
+
+    test('should send the tenant ID header', () => {
+      const tenantTransport = new LokiTransport({ url: 'http://localhost:3100', tenantId: 'team-web' });
+
+      expect(tenantTransport['headers']['X-Scope-OrgID']).toBe('team-web');
+      tenantTransport.close();
+    });
+
     test('should handle authentication', () => {
       const authTransport = new LokiTransport({
         url: 'http://localhost:3100',
@@ -201,15 +425,177 @@ describe('Transport Tests', () => {
       expect(payload[0].ddtags).toContain('version:1.0.0');
     });
 
-    test('should send to correct Datadog endpoint', async () => {
+    test('should include trace correlation fields', async () => {
+      transport.log({
+        ...mockLogEntry,
+        traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+        spanId: '00f067aa0ba902b7'
+      });
+      await transport.flush();
+
+      const payload = JSON.parse(fetchMock.mock.calls[0][1]?.body as string);
+      expect(payload[0].dd).toEqual({
+        trace_id: '11803532876627986230',
+        span_id: '67667974448284343'
+      });
+    });
+
+    test('should include breadcrumbs in the payload', async () => {
+      transport.log({
+        ...mockLogEntry,
+        level: LogLevel.ERROR,
+        breadcrumbs: [
+          { type: 'click', category: 'ui.click', message: 'button#buy', timestamp: new Date('2023-01-01T00:00:00Z') }
+        ]
+      });
+      await transport.flush();
+
+      const payload = JSON.parse(fetchMock.mock.calls[0][1]?.body as string);
+      expect(payload[0].breadcrumbs).toEqual([
+        { type: 'click', category: 'ui.click', message: 'button#buy', timestamp: 1672531200000 }
+      ]);
+    });
+
+    test('should send metrics in the series format', async () => {
+      await transport.sendMetrics([
+        {
+          name: 'checkout.started',
+          type: 'counter',
+          tags: { page: 'cart' },
+          startTime: new Date('2023-01-01T00:00:00Z'),
+          timestamp: new Date('2023-01-01T00:00:10Z'),
+          value: 3
+        },
+        {
+          name: 'latency',
+          type: 'histogram',
+          tags: {},
+          startTime: new Date('2023-01-01T00:00:00Z'),
+          timestamp: new Date('2023-01-01T00:00:10Z'),
+          count: 2,
+          sum: 300,
+          min: 100,
+          max: 200
+        }
+      ]);
+
+      const [url, init] = fetchMock.mock.calls[0];
+      const { series } = JSON.parse(init?.body as string);
+      expect(url).toBe('https://api.datadoghq.com/api/v1/series');
+      expect(init?.headers).toMatchObject({ 'DD-API-KEY': 'test-api-key' });
+      expect(series[0]).toEqual({
+        metric: 'checkout.started',
+        type: 'count',
+        interval: 10,
+        points: [[1672531210, 3]],
+        tags: ['service:test-service', 'env:test', 'version:1.0.0', 'page:cart']
+      });
+      expect(series.slice(1).map((s: any) => [s.metric, s.points[0][1]])).toEqual([
+        ['latency.count', 2],
+        ['latency.sum', 300],
+        ['latency.avg', 150],
+        ['latency.min', 100],
+        ['latency.max', 200]
+      ]);
+    });
+
+    test('should send to the v2 intake with the key in a header', async () => {
       transport.log(mockLogEntry);
       await transport.flush();
 
       expect(fetchMock).toHaveBeenCalledWith(
-        'https://http-intake.logs.datadoghq.com/v1/input/test-api-key',
-        expect.any(Object)
+        'https://http-intake.logs.datadoghq.com/api/v2/logs',
+        expect.objectContaining({
+          headers: { 'Content-Type': 'application/json', 'DD-API-KEY': 'test-api-key' }
+        })
       );
     });
+
+    test('should use the configured site for logs and metrics', async () => {
+      const eu = new DatadogTransport({ apiKey: 'test-api-key', service: 'test-service', site: 'datadoghq.eu', flushInterval: 0 });
+
+      eu.log(mockLogEntry);
+      await eu.flush();
+      await eu.sendMetrics([{
+        name: 'clicks', type: 'gauge', tags: {}, startTime: new Date(), timestamp: new Date(), value: 1
+      }]);
+
+      expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+        'https://http-intake.logs.datadoghq.eu/api/v2/logs',
+        'https://api.datadoghq.eu/api/v1/series'
+      ]);
+      eu.close();
+    });
+
+    test('should send client tokens and route through a proxy', async () => {
+      const browser = new DatadogTransport({
+        clientToken: 'pub123',
+        service: 'test-service',
+        proxyUrl: 'https://example.com/dd-proxy',
+        flushInterval: 0
+      });
+
+      browser.log(mockLogEntry);
+      await browser.flush();
+      await browser.sendMetrics([{
+        name: 'clicks', type: 'gauge', tags: {}, startTime: new Date(), timestamp: new Date(), value: 1
+      }]);
+
+      const [[logsUrl, logsInit], [seriesUrl, seriesInit]] = fetchMock.mock.calls;
+      expect(logsUrl).toBe('https://example.com/dd-proxy?ddforward=%2Fapi%2Fv2%2Flogs');
+      expect(logsInit?.headers).toMatchObject({ 'DD-API-KEY': 'pub123' });
+      expect(seriesUrl).toBe('https://example.com/dd-proxy?ddforward=%2Fapi%2Fv1%2Fseries');
+      expect(seriesInit?.headers).not.toHaveProperty('DD-API-KEY');
+      browser.close();
+    });
+
+    test('should reject metrics with only a client token and no proxy', async () => {
+      const browser = new DatadogTransport({ clientToken: 'pub123', service: 'test-service', flushInterval: 0 });
+
+      await expect(browser.sendMetrics([{
+        name: 'clicks', type: 'gauge', tags: {}, startTime: new Date(), timestamp: new Date(), value: 1
+      }])).rejects.toThrow('Datadog metrics require an API key or a proxyUrl');
+      expect(fetchMock).not.toHaveBeenCalled();
+      browser.close();
+    });
+
+    test('should gzip payloads when CompressionStream is available', async () => {
+      const globals = global as any;
+      const originalEncoder = globals.TextEncoder;
+      globals.CompressionStream = NodeCompressionStream;
+      globals.TextEncoder = NodeTextEncoder;
+
+      try {
+        transport.log(mockLogEntry);
+        await transport.flush();
+      } finally {
+        delete globals.CompressionStream;
+        globals.TextEncoder = originalEncoder;
+      }
+
+      const init = fetchMock.mock.calls[0][1];
+      expect(init?.headers).toMatchObject({ 'Content-Encoding': 'gzip' });
+      const payload = JSON.parse(gunzipSync(Buffer.from(init?.body as Uint8Array)).toString());
+      expect(payload[0].message).toBe('Test message');
+    });
+
+    test('should split batches at 1000 entries', async () => {
+      const large = new DatadogTransport({
+        apiKey: 'test-api-key',
+        service: 'test-service',
+        bufferSize: 5000,
+        maxBufferSize: 5000,
+        flushInterval: 0
+      });
+
+      for (let i = 0; i < 1500; i++) {
+        large.log(mockLogEntry);
+      }
+      await large.flush();
+
+      expect(fetchMock.mock.calls.map(([, init]) => JSON.parse(init?.body as string).length)).toEqual([1000, 500]);
+      large.close();
+    });
   });
 
   describe('SentryTransport', () => {
@@ -245,6 +631,220 @@ describe('Transport Tests', () => {
       expect(transport).toBeDefined();
     });
 
+    test('should forward breadcrumbs as native Sentry breadcrumbs', async () => {
+      const scope = {
+        setTag: jest.fn(),
+        setUser: jest.fn(),
+        setContext: jest.fn(),
+        setLevel: jest.fn(),
+        addBreadcrumb: jest.fn()
+      };
+      const captureException = jest.fn();
+      const hubTransport = new SentryTransport({
+        hub: { withScope: (callback: any) => callback(scope), captureException, captureMessage: jest.fn() },
+        flushInterval: 0
+      });
+
+      hubTransport.log({
+        ...mockLogEntry,
+        level: LogLevel.ERROR,
+        error: new Error('Boom'),
+        breadcrumbs: [
+          {
+            type: 'http',
+            category: 'fetch',
+            level: LogLevel.WARN,
+            message: 'GET /api 404',
+            data: { method: 'GET', url: '/api', status: 404 },
+            timestamp: new Date('2023-01-01T00:00:00Z')
+          }
+        ]
+      });
+      await hubTransport.flush();
+
+      expect(scope.addBreadcrumb).toHaveBeenCalledWith({
+        type: 'http',
+        category: 'fetch',
+        message: 'GET /api 404',
+        level: 'warning',
+        timestamp: 1672531200,
+        data: { method: 'GET', url: '/api', status: 404, status_code: 404 }
+      });
+      expect(captureException).toHaveBeenCalled();
+      hubTransport.close();
+    });
+
+    test('should capture through an existing hub without initializing Sentry', async () => {
+      const scope = { setTag: jest.fn(), setUser: jest.fn(), setContext: jest.fn(), setLevel: jest.fn(), addBreadcrumb: jest.fn() };
+      const hub = {
+        withScope: jest.fn((callback: (scope: any) => void) => callback(scope)),
+        captureException: jest.fn(),
+        captureMessage: jest.fn()
+      };
+      const hubTransport = new SentryTransport({ hub, flushInterval: 0 });
+
+      hubTransport.log({ ...mockLogEntry, userId: 'user-1' });
+      expect(hub.captureMessage).not.toHaveBeenCalled();
+      await hubTransport.flush();
+
+      expect(hub.captureMessage).toHaveBeenCalledWith('Test message');
+      expect(scope.setUser).toHaveBeenCalledWith({ id: 'user-1' });
+      expect(scope.setLevel).toHaveBeenCalledWith('info');
+      hubTransport.close();
+    });
+
+    test('should map entry tags to distinct key/value tags', async () => {
+      const scope = { setTag: jest.fn(), setUser: jest.fn(), setContext: jest.fn(), setLevel: jest.fn(), setFingerprint: jest.fn() };
+      const hub = { withScope: (callback: any) => callback(scope), captureException: jest.fn(), captureMessage: jest.fn() };
+      const hubTransport = new SentryTransport({ hub, flushInterval: 0 });
+
+      hubTransport.log({ ...mockLogEntry, tags: ['checkout', 'team:payments', 'region: eu-west'] });
+      await hubTransport.flush();
+
+      const tags = scope.setTag.mock.calls.reduce((all, [key, value]) => ({ ...all, [key]: value }), {});
+      expect(tags).toEqual({ checkout: 'true', team: 'payments', region: 'eu-west', session_id: 'test-session' });
+      expect(tags).not.toHaveProperty('url');
+      expect(scope.setFingerprint).not.toHaveBeenCalled();
+      hubTransport.close();
+    });
+
+    test('should apply fingerprint rules, preferring one set on the entry', async () => {
+      const scope = { setTag: jest.fn(), setUser: jest.fn(), setContext: jest.fn(), setLevel: jest.fn(), setFingerprint: jest.fn() };
+      const hub = { withScope: (callback: any) => callback(scope), captureException: jest.fn(), captureMessage: jest.fn() };
+      const hubTransport = new SentryTransport({
+        hub,
+        fingerprint: entry => (entry.error ? ['{{ default }}', entry.message] : undefined),
+        flushInterval: 0
+      });
+
+      hubTransport.log({ ...mockLogEntry, level: LogLevel.ERROR, error: new Error('Boom') });
+      hubTransport.log({ ...mockLogEntry, context: { fingerprint: ['payment-timeout'], orderId: 7 } });
+      await hubTransport.flush();
+
+      expect(scope.setFingerprint.mock.calls).toEqual([[['{{ default }}', 'Test message']], [['payment-timeout']]]);
+      expect(scope.setContext).toHaveBeenLastCalledWith('additional_context', { orderId: 7 });
+      hubTransport.close();
+    });
+
+    test('should queue entries logged before the SDK has loaded', async () => {
+      const captureMessage = jest.fn();
+      const scope = { setTag: jest.fn(), setUser: jest.fn(), setContext: jest.fn(), setLevel: jest.fn() };
+      let resolveReady!: () => void;
+      const sdkTransport = new SentryTransport({ dsn: 'https://key@sentry.example.com/1', flushInterval: 0 });
+      sdkTransport['ready'] = new Promise<void>(resolve => {
+        resolveReady = () => {
+          sdkTransport['sentry'] = { withScope: (callback: any) => callback(scope), captureException: jest.fn(), captureMessage };
+          resolve();
+        };
+      });
+
+      sdkTransport.log({ ...mockLogEntry, message: 'Early' });
+      const flushing = sdkTransport.flush();
+      expect(captureMessage).not.toHaveBeenCalled();
+
+      resolveReady();
+      await flushing;
+
+      expect(captureMessage).toHaveBeenCalledWith('Early');
+      sdkTransport.close();
+    });
+
+    test('should parse Chrome and Firefox stack traces', () => {
+      const chrome = 'TypeError: x is undefined\n    at handleClick (https://app.example.com/main.js:10:15)\n    at https://app.example.com/node_modules/react-dom/index.js:3:7';
+      const firefox = 'handleClick@https://app.example.com/main.js:10:15\n@https://app.example.com/main.js:20:1';
+
+      expect(parseStack(chrome)).toEqual([
+        { function: 'handleClick', filename: 'https://app.example.com/main.js', lineno: 10, colno: 15, in_app: true },
+        { function: '?', filename: 'https://app.example.com/node_modules/react-dom/index.js', lineno: 3, colno: 7, in_app: false }
+      ]);
+      expect(parseStack(firefox).map(frame => [frame.function, frame.lineno])).toEqual([['handleClick', 10], ['?', 20]]);
+    });
+
+    describe('envelope mode', () => {
+      let fetchMock: jest.MockedFunction<typeof fetch>;
+
+      beforeEach(() => {
+        fetchMock = global.fetch as jest.MockedFunction<typeof fetch>;
+        fetchMock.mockResolvedValue({ ok: true, status: 200, statusText: 'OK' } as Response);
+      });
+
+      test('should post one envelope per entry to the DSN project', async () => {
+        const envelopeTransport = new SentryTransport({
+          dsn: 'https://public123@o1.ingest.sentry.io/456',
+          mode: 'envelope',
+          environment: 'test',
+          release: '1.0.0',
+          flushInterval: 0
+        });
+        const error = new Error('Boom');
+        error.stack = 'Error: Boom\n    at inner (https://app.example.com/main.js:2:3)\n    at outer (https://app.example.com/main.js:8:1)';
+
+        envelopeTransport.log({
+          ...mockLogEntry,
+          level: LogLevel.ERROR,
+          message: 'Checkout failed',
+          error,
+          userId: 'user-1',
+          traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+          spanId: '00f067aa0ba902b7',
+          breadcrumbs: [{ type: 'click', message: 'button#buy', timestamp: new Date('2023-01-01T00:00:00Z') }]
+        });
+        envelopeTransport.log(mockLogEntry);
+        await envelopeTransport.flush();
+
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+        const [url, init] = fetchMock.mock.calls[0];
+        expect(url).toBe('https://o1.ingest.sentry.io/api/456/envelope/?sentry_key=public123&sentry_version=7&sentry_client=hermes-trace');
+        expect(init?.headers).toEqual({ 'Content-Type': 'text/plain;charset=UTF-8' });
+
+        const [header, itemHeader, event] = (init?.body as string).trim().split('\n').map(line => JSON.parse(line));
+        expect(header).toMatchObject({ event_id: event.event_id, dsn: 'https://public123@o1.ingest.sentry.io/456' });
+        expect(itemHeader).toEqual({ type: 'event' });
+        expect(event.event_id).toMatch(/^[0-9a-f]{32}$/);
+        expect(event).toMatchObject({
+          timestamp: 1672531200,
+          platform: 'javascript',
+          level: 'error',
+          environment: 'test',
+          release: '1.0.0',
+          message: { formatted: 'Checkout failed' },
+          user: { id: 'user-1' },
+          tags: { session_id: 'test-session', trace_id: '4bf92f3577b34da6a3ce929d0e0e4736' },
+          contexts: {
+            additional_context: { key: 'value' },
+            trace: { trace_id: '4bf92f3577b34da6a3ce929d0e0e4736', span_id: '00f067aa0ba902b7' }
+          },
+          breadcrumbs: { values: [expect.objectContaining({ message: 'button#buy', timestamp: 1672531200 })] },
+          request: { url: 'https://example.com', headers: { 'User-Agent': 'Test Browser' } }
+        });
+        expect(event.exception.values[0]).toMatchObject({ type: 'Error', value: 'Boom' });
+        expect(event.exception.values[0].stacktrace.frames.map((frame: any) => frame.function)).toEqual(['outer', 'inner']);
+        envelopeTransport.close();
+      });
+
+      test('should keep self-hosted path prefixes in the endpoint', async () => {
+        const envelopeTransport = new SentryTransport({ dsn: 'https://key@sentry.example.com/sentry/7', mode: 'envelope', flushInterval: 0 });
+
+        envelopeTransport.log(mockLogEntry);
+        await envelopeTransport.flush();
+
+        expect(fetchMock.mock.calls[0][0]).toBe('https://sentry.example.com/sentry/api/7/envelope/?sentry_key=key&sentry_version=7&sentry_client=hermes-trace');
+        envelopeTransport.close();
+      });
+
+      test('should drop entries when the DSN is invalid', () => {
+        const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+        const envelopeTransport = new SentryTransport({ dsn: 'not a dsn', mode: 'envelope', flushInterval: 0 });
+
+        envelopeTransport.log(mockLogEntry);
+
+        expect(warnSpy).toHaveBeenCalledWith('Sentry transport in envelope mode needs a valid DSN');
+        expect(envelopeTransport.getBufferedCount()).toBe(0);
+        warnSpy.mockRestore();
+        envelopeTransport.close();
+      });
+    });
+
     test('should map log levels to Sentry levels', () => {
       const mapping = transport['mapLogLevelToSentryLevel'];
       
@@ -256,56 +856,913 @@ describe('Transport Tests', () => {
     });
   });
 
-  describe('BaseTransport Buffer Management', () => {
-    let transport: LokiTransport;
+  describe('OtlpTransport', () => {
+    let transport: OtlpTransport;
+    let received: Array<{ url: string; headers: Record<string, string>; body: any }>;
+
+    beforeEach(() => {
+      // Stands in for a local collector: records each request and answers like the OTLP receiver
+      received = [];
+      (global.fetch as jest.Mock).mockImplementation(async (url: string, init: any) => {
+        received.push({ url, headers: init.headers, body: JSON.parse(init.body) });
+        return { ok: true, status: 200, statusText: 'OK' } as Response;
+      });
+
+      transport = new OtlpTransport({
+        url: 'http://localhost:4318/v1/logs',
+        headers: { 'X-Tenant': 'web' },
+        serviceName: 'storefront',
+        serviceVersion: '2.1.0',
+        environment: 'staging',
+        flushInterval: 0
+      });
+    });
+
+    afterEach(() => {
+      transport.close();
+    });
+
+    test('should post OTLP/JSON log records with resource attributes', async () => {
+      transport.log({
+        ...mockLogEntry,
+        level: LogLevel.WARN,
+        traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+        spanId: '00f067aa0ba902b7'
+      });
+      await transport.flush();
+
+      const [request] = received;
+      const resourceLogs = request.body.resourceLogs[0];
+      const record = resourceLogs.scopeLogs[0].logRecords[0];
+
+      expect(request.url).toBe('http://localhost:4318/v1/logs');
+      expect(request.headers).toMatchObject({ 'Content-Type': 'application/json', 'X-Tenant': 'web' });
+      expect(resourceLogs.resource.attributes).toEqual(expect.arrayContaining([
+        { key: 'service.name', value: { stringValue: 'storefront' } },
+        { key: 'service.version', value: { stringValue: '2.1.0' } },
+        { key: 'deployment.environment', value: { stringValue: 'staging' } }
+      ]));
+      expect(record).toMatchObject({
+        timeUnixNano: '1672531200000000000',
+        severityNumber: 13,
+        severityText: 'WARN',
+        body: { stringValue: 'Test message' },
+        traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+        spanId: '00f067aa0ba902b7'
+      });
+      expect(record.attributes).toEqual(expect.arrayContaining([
+        { key: 'key', value: { stringValue: 'value' } },
+        { key: 'tags', value: { arrayValue: { values: [{ stringValue: 'test' }] } } },
+        { key: 'session.id', value: { stringValue: 'test-session' } }
+      ]));
+    });
+
+    test('should map errors to exception attributes', async () => {
+      const error = new TypeError('Cannot read properties of undefined');
+      transport.log({ ...mockLogEntry, level: LogLevel.FATAL, error });
+      await transport.flush();
+
+      const record = received[0].body.resourceLogs[0].scopeLogs[0].logRecords[0];
+      expect(record.severityNumber).toBe(21);
+      expect(record.attributes).toEqual(expect.arrayContaining([
+        { key: 'exception.type', value: { stringValue: 'TypeError' } },
+        { key: 'exception.message', value: { stringValue: 'Cannot read properties of undefined' } }
+      ]));
+    });
+
+    test('should surface collector errors as retryable transport errors', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({ ok: false, status: 503, statusText: 'Service Unavailable' });
+
+      await expect(transport['flushEntries']([mockLogEntry])).rejects.toMatchObject({ status: 503 });
+    });
+
+    test('should send metrics to the metrics endpoint', async () => {
+      await transport.sendMetrics([{
+        name: 'clicks',
+        type: 'counter',
+        tags: {},
+        startTime: new Date('2023-01-01T00:00:00Z'),
+        timestamp: new Date('2023-01-01T00:00:10Z'),
+        value: 1
+      }]);
+
+      expect(received[0].url).toBe('http://localhost:4318/v1/metrics');
+      expect(received[0].body.resourceMetrics[0].scopeMetrics[0].metrics[0].name).toBe('clicks');
+    });
+  });
+
+  describe('HttpTransport', () => {
     let fetchMock: jest.MockedFunction<typeof fetch>;
 
     beforeEach(() => {
       fetchMock = global.fetch as jest.MockedFunction<typeof fetch>;
-      fetchMock.mockResolvedValue({
-        ok: true,
-        status: 200,
-        statusText: 'OK'
-      } as Response);
+      fetchMock.mockResolvedValue({ ok: true, status: 200, statusText: 'OK' } as Response);
+    });
 
-      transport = new LokiTransport({
-        url: 'http://localhost:3100',
-        bufferSize: 2,
-        flushInterval: 0 // Disable auto flush
+    test('should post entries as a JSON array by default', async () => {
+      const transport = new HttpTransport({ url: 'https://collector.internal/logs', headers: { 'X-Api-Key': 'abc' }, flushInterval: 0 });
+
+      transport.log(mockLogEntry);
+      await transport.flush();
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://collector.internal/logs');
+      expect(init).toMatchObject({
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Api-Key': 'abc' }
       });
+      expect(JSON.parse(init?.body as string)).toEqual([
+        expect.objectContaining({ message: 'Test message', timestamp: '2023-01-01T00:00:00.000Z' })
+      ]);
+      transport.close();
     });
 
-    test('should auto-flush when buffer size exceeded', () => {
-      const flushSpy = jest.spyOn(transport, 'flush');
-      
+    test('should support NDJSON and custom serializers', async () => {
+      const ndjson = new HttpTransport({ url: 'https://collector.internal/ndjson', serializer: 'ndjson', flushInterval: 0 });
+      const custom = new HttpTransport({
+        url: 'https://collector.internal/custom',
+        method: 'PUT',
+        serializer: entries => entries.map(entry => entry.message).join('|'),
+        flushInterval: 0
+      });
+
+      [ndjson, custom].forEach(transport => {
+        transport.log(mockLogEntry);
+        transport.log({ ...mockLogEntry, message: 'Second' });
+      });
+      await ndjson.flush();
+      await custom.flush();
+
+      const [ndjsonCall, customCall] = fetchMock.mock.calls;
+      expect(ndjsonCall[1]?.headers).toMatchObject({ 'Content-Type': 'application/x-ndjson' });
+      expect((ndjsonCall[1]?.body as string).trim().split('\n')).toHaveLength(2);
+      expect(customCall[1]).toMatchObject({ method: 'PUT', body: 'Test message|Second' });
+      ndjson.close();
+      custom.close();
+    });
+
+    test('should resolve async header providers per request', async () => {
+      let token = 0;
+      const transport = new HttpTransport({
+        url: 'https://collector.internal/logs',
+        headers: async () => ({ Authorization: `Bearer token-${++token}` }),
+        flushInterval: 0
+      });
+
       transport.log(mockLogEntry);
+      await transport.flush();
       transport.log(mockLogEntry);
-      transport.log(mockLogEntry); // This should trigger flush
+      await transport.flush();
 
-      expect(flushSpy).toHaveBeenCalled();
+      expect(fetchMock.mock.calls.map(([, init]) => (init?.headers as any).Authorization))
+        .toEqual(['Bearer token-1', 'Bearer token-2']);
+      transport.close();
     });
 
-    test('should clear buffer after flush', async () => {
-      transport.log(mockLogEntry);
-      expect(transport['buffer']).toHaveLength(1);
+    test('should split batches by count and bytes', async () => {
+      const transport = new HttpTransport({
+        url: 'https://collector.internal/logs',
+        maxBatchSize: 3,
+        maxBatchBytes: 600,
+        flushInterval: 0
+      });
 
+      for (let i = 0; i < 5; i++) {
+        transport.log({ ...mockLogEntry, message: `Entry ${i}` });
+      }
       await transport.flush();
-      expect(transport['buffer']).toHaveLength(0);
+
+      const sizes = fetchMock.mock.calls.map(([, init]) => JSON.parse(init?.body as string).length);
+      expect(sizes.reduce((a, b) => a + b, 0)).toBe(5);
+      expect(Math.max(...sizes)).toBeLessThanOrEqual(3);
+      fetchMock.mock.calls.forEach(([, init]) => {
+        expect((init?.body as string).length).toBeLessThanOrEqual(600);
+      });
+      transport.close();
     });
 
-    test('should handle flush errors by restoring buffer', async () => {
+    test('should use the success predicate and retry only undelivered batches', async () => {
       const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
-      const originalFlushEntries = transport['flushEntries'];
-      transport['flushEntries'] = jest.fn().mockRejectedValue(new Error('Flush failed'));
-      
-      transport.log(mockLogEntry);
+      fetchMock
+        .mockResolvedValueOnce({ ok: true, status: 202, statusText: 'Accepted' } as Response)
+        .mockResolvedValueOnce({ ok: true, status: 200, statusText: 'OK' } as Response);
+      const transport = new HttpTransport({
+        url: 'https://collector.internal/logs',
+        maxBatchSize: 1,
+        isSuccess: response => response.status === 202,
+        flushInterval: 0
+      });
+
+      transport.log({ ...mockLogEntry, message: 'Delivered' });
+      transport.log({ ...mockLogEntry, message: 'Rejected' });
       await transport.flush();
 
-      // Buffer should be restored on error
-      expect(transport['buffer']).toHaveLength(1);
-      
-      transport['flushEntries'] = originalFlushEntries;
+      expect(transport['buffer'].map(entry => entry.message)).toEqual(['Rejected']);
       consoleSpy.mockRestore();
+      transport.close();
+    });
+  });
+
+  describe('ElasticsearchTransport', () => {
+    let fetchMock: jest.MockedFunction<typeof fetch>;
+
+    const bulkResponse = (items: Array<{ status: number; error?: any }>) => ({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      json: async () => ({
+        errors: items.some(item => item.status >= 300),
+        items: items.map(item => ({ index: item }))
+      })
+    } as Response);
+
+    beforeEach(() => {
+      fetchMock = global.fetch as jest.MockedFunction<typeof fetch>;
+      fetchMock.mockResolvedValue(bulkResponse([{ status: 201 }]));
+    });
+
+    test('should post ECS documents to the bulk API with dated indices', async () => {
+      const transport = new ElasticsearchTransport({
+        url: 'https://es.example.com:9200/',
+        index: 'frontend-logs-%Y.%m.%d',
+        apiKey: 'encoded-key',
+        serviceName: 'web',
+        environment: 'prod',
+        flushInterval: 0
+      });
+
+      transport.log({ ...mockLogEntry, traceId: 'trace-1', userId: 'user-1' });
+      await transport.flush();
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://es.example.com:9200/_bulk');
+      expect(init?.headers).toMatchObject({
+        'Content-Type': 'application/x-ndjson',
+        Authorization: 'ApiKey encoded-key'
+      });
+
+      const body = init?.body as string;
+      expect(body.endsWith('\n')).toBe(true);
+      const [action, document] = body.trim().split('\n').map(line => JSON.parse(line));
+      expect(action).toEqual({ index: { _index: 'frontend-logs-2023.01.01' } });
+      expect(document).toMatchObject({
+        '@timestamp': '2023-01-01T00:00:00.000Z',
+        message: 'Test message',
+        log: { level: 'info' },
+        service: { name: 'web', environment: 'prod' },
+        tags: ['test'],
+        trace: { id: 'trace-1' },
+        user: { id: 'user-1' },
+        url: { full: 'https://example.com' },
+        user_agent: { original: 'Test Browser' },
+        hermes: { context: { key: 'value' }, session_id: 'test-session' }
+      });
+      transport.close();
+    });
+
+    test('should use basic auth and the create op type', async () => {
+      const transport = new ElasticsearchTransport({
+        url: 'https://es.example.com',
+        basicAuth: { username: 'elastic', password: 'secret' },
+        opType: 'create',
+        flushInterval: 0
+      });
+
+      transport.log(mockLogEntry);
+      await transport.flush();
+
+      const init = fetchMock.mock.calls[0][1];
+      expect(init?.headers).toMatchObject({ Authorization: `Basic ${btoa('elastic:secret')}` });
+      expect(JSON.parse((init?.body as string).split('\n')[0])).toHaveProperty('create');
+      transport.close();
+    });
+
+    test('should retry only documents rejected for transient reasons', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      fetchMock.mockResolvedValueOnce(bulkResponse([
+        { status: 201 },
+        { status: 429, error: { type: 'es_rejected_execution_exception' } },
+        { status: 400, error: { type: 'mapper_parsing_exception', reason: 'failed to parse field' } }
+      ]));
+      const transport = new ElasticsearchTransport({ url: 'https://es.example.com', flushInterval: 0 });
+
+      ['Indexed', 'Throttled', 'Malformed'].forEach(message => transport.log({ ...mockLogEntry, message }));
+      await transport.flush();
+
+      expect(transport['buffer'].map(entry => entry.message)).toEqual(['Throttled']);
+      expect(consoleSpy).toHaveBeenCalledWith('Dropping 1 entries rejected by Elasticsearch: failed to parse field');
+      consoleSpy.mockRestore();
+      transport.close();
+    });
+
+    test('should keep only throttled documents queued when replay partially fails', async () => {
+      const storage = new MemoryQueueStorage();
+      const queue = new OfflineQueue('elasticsearch', { storage });
+      await queue.enqueue([{ ...mockLogEntry, message: 'Indexed' }, { ...mockLogEntry, message: 'Throttled' }]);
+
+      fetchMock.mockImplementation(async (_url, init) => {
+        const documents = (init?.body as string).trim().split('\n').filter((_line, index) => index % 2 === 1);
+        return bulkResponse(documents.map(line => ({ status: line.includes('Throttled') ? 429 : 201 })));
+      });
+      const transport = new ElasticsearchTransport({ url: 'https://es.example.com', flushInterval: 0, offlineQueue: { storage } });
+      await transport.replayQueue();
+
+      const bodies = fetchMock.mock.calls.map(([, init]) => init?.body as string);
+      expect(bodies.filter(body => body.includes('Indexed'))).toHaveLength(1);
+      expect(await queue.size()).toBe(1);
+      transport.close();
+    });
+  });
+
+  describe('SplunkHecTransport', () => {
+    let fetchMock: jest.MockedFunction<typeof fetch>;
+
+    beforeEach(() => {
+      fetchMock = global.fetch as jest.MockedFunction<typeof fetch>;
+      fetchMock.mockResolvedValue({ ok: true, status: 200, statusText: 'OK' } as Response);
+    });
+
+    test('should send batched HEC events with token auth and channel', async () => {
+      const transport = new SplunkHecTransport({
+        url: 'https://splunk.example.com:8088/services/collector',
+        token: 'hec-token',
+        channel: 'FE0ECFAD-13D5-401B-847D-77833BD77131',
+        host: 'web-01',
+        sourcetype: 'hermes:json',
+        index: 'frontend',
+        flushInterval: 0
+      });
+
+      transport.log(mockLogEntry);
+      transport.log({ ...mockLogEntry, level: LogLevel.ERROR, message: 'Failed' });
+      await transport.flush();
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://splunk.example.com:8088/services/collector/event');
+      expect(init?.headers).toMatchObject({
+        Authorization: 'Splunk hec-token',
+        'X-Splunk-Request-Channel': 'FE0ECFAD-13D5-401B-847D-77833BD77131'
+      });
+
+      const events = (init?.body as string).split('\n').map(line => JSON.parse(line));
+      expect(events).toHaveLength(2);
+      expect(events[0]).toMatchObject({
+        time: 1672531200,
+        host: 'web-01',
+        source: 'hermes-trace',
+        sourcetype: 'hermes:json',
+        index: 'frontend',
+        event: {
+          message: 'Test message',
+          level: 'info',
+          tags: ['test'],
+          sessionId: 'test-session',
+          context: { key: 'value' }
+        }
+      });
+      expect(events[1].event.level).toBe('error');
+      transport.close();
+    });
+
+    test('should surface HEC errors as transport errors', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      fetchMock.mockResolvedValueOnce({ ok: false, status: 403, statusText: 'Forbidden' } as Response);
+      const transport = new SplunkHecTransport({ url: 'https://splunk.example.com:8088', token: 'bad', flushInterval: 0 });
+
+      transport.log(mockLogEntry);
+      await transport.flush();
+
+      expect(fetchMock.mock.calls[0][0]).toBe('https://splunk.example.com:8088/services/collector/event');
+      expect(consoleSpy).toHaveBeenCalledWith(
+        'Failed to flush entries for transport splunk:',
+        expect.objectContaining({ status: 403 })
+      );
+      expect(transport.getBufferedCount()).toBe(0);
+      consoleSpy.mockRestore();
+      transport.close();
+    });
+  });
+
+  describe('BaseTransport Buffer Management', () => {
+    let transport: LokiTransport;
+    let fetchMock: jest.MockedFunction<typeof fetch>;
+
+    beforeEach(() => {
+      fetchMock = global.fetch as jest.MockedFunction<typeof fetch>;
+      fetchMock.mockResolvedValue({
+        ok: true,
+        status: 200,
+        statusText: 'OK'
+      } as Response);
+
+      transport = new LokiTransport({
+        url: 'http://localhost:3100',
+        bufferSize: 2,
+        flushInterval: 0 // Disable auto flush
+      });
+    });
+
+    afterEach(() => {
+      transport.close();
+    });
+
+    test('should auto-flush when buffer size exceeded', () => {
+      const flushSpy = jest.spyOn(transport, 'flush');
+      
+      transport.log(mockLogEntry);
+      transport.log(mockLogEntry);
+      transport.log(mockLogEntry); // This should trigger flush
+
+      expect(flushSpy).toHaveBeenCalled();
+    });
+
+    test('should clear buffer after flush', async () => {
+      transport.log(mockLogEntry);
+      expect(transport['buffer']).toHaveLength(1);
+
+      await transport.flush();
+      expect(transport['buffer']).toHaveLength(0);
+    });
+
+    test('should handle flush errors by restoring buffer', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      const originalFlushEntries = transport['flushEntries'];
+      transport['flushEntries'] = jest.fn().mockRejectedValue(new Error('Flush failed'));
+      
+      transport.log(mockLogEntry);
+      await transport.flush();
+
+      // Buffer should be restored on error
+      expect(transport['buffer']).toHaveLength(1);
+      
+      transport['flushEntries'] = originalFlushEntries;
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('Offline Queue', () => {
+    let storage: MemoryQueueStorage;
+    let fetchMock: jest.MockedFunction<typeof fetch>;
+    let consoleSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      storage = new MemoryQueueStorage();
+      fetchMock = global.fetch as jest.MockedFunction<typeof fetch>;
+      consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+    });
+
+    afterEach(() => {
+      consoleSpy.mockRestore();
+    });
+
+    test('should persist failed batches instead of restoring buffer', async () => {
+      fetchMock.mockRejectedValue(new Error('Network error'));
+      const transport = new LokiTransport({
+        url: 'http://localhost:3100',
+        flushInterval: 0,
+        offlineQueue: { storage }
+      });
+
+      transport.log(mockLogEntry);
+      await transport.flush();
+
+      expect(transport['buffer']).toHaveLength(0);
+      expect(await transport['queue']!.size()).toBe(1);
+      transport.close();
+    });
+
+    test('should replay persisted batches on startup', async () => {
+      const queue = new OfflineQueue('loki', { storage });
+      await queue.enqueue([{ ...mockLogEntry, error: new Error('Stored error') }]);
+
+      fetchMock.mockResolvedValue({ ok: true, status: 200, statusText: 'OK' } as Response);
+      const transport = new LokiTransport({
+        url: 'http://localhost:3100',
+        flushInterval: 0,
+        offlineQueue: { storage }
+      });
+      await transport.replayQueue();
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        'http://localhost:3100/loki/api/v1/push',
+        expect.objectContaining({ body: expect.stringContaining('Test message') })
+      );
+      expect(await queue.size()).toBe(0);
+      transport.close();
+    });
+
+    test('should restore breadcrumb timestamps when draining', async () => {
+      const queue = new OfflineQueue('test', { storage });
+      await queue.enqueue([{
+        ...mockLogEntry,
+        breadcrumbs: [{ type: 'custom', message: 'Opened cart', timestamp: new Date('2023-01-01T00:00:00Z') }]
+      }]);
+
+      let restored: LogEntry[] = [];
+      await queue.drain(async entries => {
+        restored = entries;
+      });
+
+      expect(restored[0].breadcrumbs![0].timestamp).toEqual(new Date('2023-01-01T00:00:00Z'));
+    });
+
+    test('should enforce max size by dropping oldest entries', async () => {
+      const queue = new OfflineQueue('test', { storage, maxSize: 3 });
+      await queue.enqueue([{ ...mockLogEntry, message: 'first' }, { ...mockLogEntry, message: 'second' }]);
+      await queue.enqueue([{ ...mockLogEntry, message: 'third' }, { ...mockLogEntry, message: 'fourth' }]);
+
+      const sent: string[] = [];
+      await queue.drain(async entries => {
+        sent.push(...entries.map(entry => entry.message));
+      });
+
+      expect(sent).toEqual(['second', 'third', 'fourth']);
+    });
+
+    test('should discard batches older than max age', async () => {
+      const queue = new OfflineQueue('test', { storage, maxAge: 1000 });
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(0);
+      await queue.enqueue([mockLogEntry]);
+      nowSpy.mockReturnValue(5000);
+
+      expect(await queue.size()).toBe(0);
+      nowSpy.mockRestore();
+    });
+
+    test('should keep remaining batches when replay fails', async () => {
+      const queue = new OfflineQueue('test', { storage });
+      await queue.enqueue([mockLogEntry]);
+      await queue.enqueue([mockLogEntry]);
+
+      const send = jest.fn()
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new Error('Still offline'));
+      await queue.drain(send);
+
+      expect(send).toHaveBeenCalledTimes(2);
+      expect(await queue.size()).toBe(1);
+    });
+
+    test('should drop replayed batches rejected with a non-retryable error', async () => {
+      const queue = new OfflineQueue('loki', { storage });
+      await queue.enqueue([{ ...mockLogEntry, message: 'malformed' }]);
+      await queue.enqueue([{ ...mockLogEntry, message: 'valid' }]);
+
+      fetchMock
+        .mockResolvedValueOnce({ ok: false, status: 400, statusText: 'Bad Request' } as Response)
+        .mockResolvedValueOnce({ ok: true, status: 204, statusText: 'No Content' } as Response);
+      const transport = new LokiTransport({
+        url: 'http://localhost:3100',
+        flushInterval: 0,
+        offlineQueue: { storage }
+      });
+      await transport.replayQueue();
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(fetchMock.mock.calls[1][1]!.body).toContain('valid');
+      expect(await queue.size()).toBe(0);
+      transport.close();
+    });
+
+    test('should hold a cross-tab lock on the storage key while draining', async () => {
+      const held: string[] = [];
+      const request = jest.fn(async (name: string, callback: () => Promise<unknown>) => {
+        held.push(name);
+        try {
+          return await callback();
+        } finally {
+          held.pop();
+        }
+      });
+      Object.defineProperty(navigator, 'locks', { value: { request }, configurable: true });
+
+      const queue = new OfflineQueue('test', { storage });
+      await queue.enqueue([mockLogEntry]);
+
+      const lockedDuringSend: string[][] = [];
+      await queue.drain(async () => {
+        lockedDuringSend.push([...held]);
+      });
+
+      expect(request).toHaveBeenCalledWith('hermes-trace:queue:test', expect.any(Function));
+      expect(lockedDuringSend).toEqual([['hermes-trace:queue:test']]);
+      delete (navigator as { locks?: LockManager }).locks;
+    });
+  });
+
+  describe('Retry and Circuit Breaker', () => {
+    let fetchMock: jest.MockedFunction<typeof fetch>;
+    let consoleSpy: jest.SpyInstance;
+    let nowSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      fetchMock = global.fetch as jest.MockedFunction<typeof fetch>;
+      consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      nowSpy = jest.spyOn(Date, 'now').mockReturnValue(0);
+    });
+
+    afterEach(() => {
+      consoleSpy.mockRestore();
+      nowSpy.mockRestore();
+    });
+
+    const createTransport = (config: Partial<LokiConfig> = {}) => new LokiTransport({
+      url: 'http://localhost:3100',
+      flushInterval: 0,
+      retry: { baseDelay: 1000, jitter: false },
+      ...config
+    });
+
+    test('should back off exponentially between attempts', async () => {
+      fetchMock.mockRejectedValue(new Error('Network error'));
+      const transport = createTransport();
+
+      transport.log(mockLogEntry);
+      await transport.flush();
+      expect(transport['retryAt']).toBe(1000);
+
+      await transport.flush();
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      nowSpy.mockReturnValue(1000);
+      await transport.flush();
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(transport['retryAt']).toBe(3000);
+      transport.close();
+    });
+
+    test('should honor Retry-After on 429 responses', async () => {
+      fetchMock.mockResolvedValue({
+        ok: false,
+        status: 429,
+        statusText: 'Too Many Requests',
+        headers: new Headers({ 'Retry-After': '30' })
+      } as Response);
+      const transport = createTransport();
+
+      transport.log(mockLogEntry);
+      await transport.flush();
+
+      expect(transport['retryAt']).toBe(30000);
+      expect(transport['buffer']).toHaveLength(1);
+      transport.close();
+    });
+
+    test('should drop entries on non-retryable errors', async () => {
+      fetchMock.mockResolvedValue({ ok: false, status: 400, statusText: 'Bad Request' } as Response);
+      const transport = createTransport();
+
+      transport.log(mockLogEntry);
+      await transport.flush();
+
+      expect(transport['buffer']).toHaveLength(0);
+      expect(transport['retryAt']).toBe(0);
+      transport.close();
+    });
+
+    test('should drop entries after max attempts', async () => {
+      fetchMock.mockRejectedValue(new Error('Network error'));
+      const transport = createTransport({ retry: { maxAttempts: 2, baseDelay: 0, jitter: false } });
+
+      transport.log(mockLogEntry);
+      await transport.flush();
+      expect(transport['buffer']).toHaveLength(1);
+
+      await transport.flush();
+      expect(transport['buffer']).toHaveLength(0);
+      transport.close();
+    });
+
+    test('should open the circuit after repeated failures and half-open later', async () => {
+      const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeout: 10000 });
+
+      breaker.recordFailure();
+      expect(breaker.canRequest()).toBe(true);
+      breaker.recordFailure();
+      expect(breaker.canRequest()).toBe(false);
+
+      nowSpy.mockReturnValue(10000);
+      expect(breaker.getState()).toBe('half-open');
+      expect(breaker.canRequest()).toBe(true);
+
+      breaker.recordFailure();
+      expect(breaker.getState()).toBe('open');
+
+      nowSpy.mockReturnValue(20000);
+      breaker.recordSuccess();
+      expect(breaker.getState()).toBe('closed');
+    });
+
+    test('should add jitter within the backoff window', () => {
+      const policy = new RetryPolicy({ baseDelay: 1000, maxDelay: 5000 });
+
+      for (let attempt = 1; attempt <= 6; attempt++) {
+        const delay = policy.getDelay(attempt);
+        expect(delay).toBeGreaterThanOrEqual(0);
+        expect(delay).toBeLessThanOrEqual(Math.min(5000, 1000 * Math.pow(2, attempt - 1)));
+      }
+    });
+  });
+
+  describe('Buffer Overflow', () => {
+    let fetchMock: jest.MockedFunction<typeof fetch>;
+
+    beforeEach(() => {
+      fetchMock = global.fetch as jest.MockedFunction<typeof fetch>;
+      fetchMock.mockResolvedValue({ ok: true, status: 200, statusText: 'OK' } as Response);
+    });
+
+    const createTransport = (overflowPolicy: OverflowPolicy) => new LokiTransport({
+      url: 'http://localhost:3100',
+      flushInterval: 0,
+      bufferSize: 100,
+      maxBufferSize: 3,
+      overflowPolicy
+    });
+
+    const messages = (transport: LokiTransport) => transport['buffer'].map(entry => entry.message);
+
+    test('should drop oldest entries by default', () => {
+      const transport = createTransport('drop-oldest');
+      ['a', 'b', 'c', 'd'].forEach(message => transport.log({ ...mockLogEntry, message }));
+
+      expect(messages(transport)).toEqual(['b', 'c', 'd']);
+    });
+
+    test('should drop newest entries when configured', () => {
+      const transport = createTransport('drop-newest');
+      ['a', 'b', 'c', 'd'].forEach(message => transport.log({ ...mockLogEntry, message }));
+
+      expect(messages(transport)).toEqual(['a', 'b', 'c']);
+    });
+
+    test('should drop lowest level entries first', () => {
+      const transport = createTransport('drop-lowest-level');
+      transport.log({ ...mockLogEntry, level: LogLevel.ERROR, message: 'error' });
+      transport.log({ ...mockLogEntry, level: LogLevel.INFO, message: 'info' });
+      transport.log({ ...mockLogEntry, level: LogLevel.WARN, message: 'warn' });
+      transport.log({ ...mockLogEntry, level: LogLevel.ERROR, message: 'error 2' });
+
+      expect(messages(transport)).toEqual(['error', 'warn', 'error 2']);
+
+      transport.log({ ...mockLogEntry, level: LogLevel.INFO, message: 'info 2' });
+      expect(messages(transport)).toEqual(['error', 'warn', 'error 2']);
+    });
+
+    test('should emit a dropped notice after a successful flush', async () => {
+      const transport = createTransport('drop-oldest');
+      ['a', 'b', 'c', 'd', 'e'].forEach(message => transport.log({ ...mockLogEntry, message }));
+
+      await transport.flush();
+
+      expect(transport['buffer']).toHaveLength(1);
+      expect(transport['buffer'][0]).toMatchObject({
+        level: LogLevel.WARN,
+        message: '2 logs dropped by transport loki due to buffer overflow',
+        context: { dropped: 2, overflowPolicy: 'drop-oldest' }
+      });
+    });
+  });
+
+  describe('Unload Delivery', () => {
+    let fetchMock: jest.MockedFunction<typeof fetch>;
+    let sendBeacon: jest.Mock;
+
+    beforeEach(() => {
+      fetchMock = global.fetch as jest.MockedFunction<typeof fetch>;
+      fetchMock.mockResolvedValue({ ok: true, status: 200, statusText: 'OK' } as Response);
+      sendBeacon = jest.fn().mockReturnValue(true);
+      Object.defineProperty(navigator, 'sendBeacon', { value: sendBeacon, configurable: true });
+    });
+
+    afterEach(() => {
+      delete (navigator as any).sendBeacon;
+    });
+
+    test('should use sendBeacon when no custom headers are required', () => {
+      const transport = new HttpTransport({ url: 'https://collector.internal/logs', flushInterval: 0 });
+      transport.log(mockLogEntry);
+      transport.flushOnUnload();
+
+      expect(sendBeacon).toHaveBeenCalledWith(
+        'https://collector.internal/logs',
+        expect.any(Blob)
+      );
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(transport['buffer']).toHaveLength(0);
+    });
+
+    test('should use fetch keepalive when auth headers are required', () => {
+      const transport = new LokiTransport({
+        url: 'http://localhost:3100',
+        basicAuth: { username: 'user', password: 'pass' },
+        flushInterval: 0
+      });
+      transport.log(mockLogEntry);
+      transport.flushOnUnload();
+
+      expect(sendBeacon).not.toHaveBeenCalled();
+      expect(fetchMock).toHaveBeenCalledWith(
+        'http://localhost:3100/loki/api/v1/push',
+        expect.objectContaining({ keepalive: true })
+      );
+    });
+
+    test('should split batches that exceed the 64KB limit', () => {
+      const transport = new HttpTransport({ url: 'https://collector.internal/logs', flushInterval: 0 });
+      const largeMessage = 'x'.repeat(20 * 1024);
+      for (let i = 0; i < 8; i++) {
+        transport.log({ ...mockLogEntry, message: largeMessage });
+      }
+      transport.flushOnUnload();
+
+      expect(sendBeacon.mock.calls.length).toBeGreaterThan(1);
+      sendBeacon.mock.calls.forEach(([, blob]) => {
+        expect((blob as Blob).size).toBeLessThanOrEqual(64 * 1024);
+      });
+    });
+
+    test('should keep entries over the shared keepalive budget for a later flush', async () => {
+      const responses: Array<() => void> = [];
+      fetchMock.mockImplementation(() => new Promise(resolve => {
+        responses.push(() => resolve({ ok: true, status: 200, statusText: 'OK' } as Response));
+      }));
+      const transport = new HttpTransport({
+        url: 'https://collector.internal/logs',
+        headers: { Authorization: 'Bearer token' },
+        flushInterval: 0
+      });
+      const largeMessage = 'x'.repeat(20 * 1024);
+      for (let i = 0; i < 8; i++) {
+        transport.log({ ...mockLogEntry, message: largeMessage });
+      }
+      transport.flushOnUnload();
+
+      const sentBytes = fetchMock.mock.calls.reduce((total, [, init]) => total + (init!.body as string).length, 0);
+      expect(fetchMock).toHaveBeenCalled();
+      expect(sentBytes).toBeLessThanOrEqual(64 * 1024);
+      expect(transport['buffer'].length).toBeGreaterThan(0);
+
+      responses.forEach(respond => respond());
+      await new Promise(resolve => setTimeout(resolve, 0));
+    });
+
+    test('should not send unauthenticated beacons before the header provider resolves', async () => {
+      const transport = new HttpTransport({
+        url: 'https://collector.internal/logs',
+        headers: async () => ({ Authorization: 'Bearer token' }),
+        flushInterval: 0
+      });
+      transport.log(mockLogEntry);
+      transport.flushOnUnload();
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(sendBeacon).not.toHaveBeenCalled();
+      expect(fetchMock).toHaveBeenCalledWith(
+        'https://collector.internal/logs',
+        expect.objectContaining({ headers: expect.objectContaining({ Authorization: 'Bearer token' }) })
+      );
+
+      transport.log(mockLogEntry);
+      transport.flushOnUnload();
+
+      expect(sendBeacon).not.toHaveBeenCalled();
+      expect(fetchMock).toHaveBeenLastCalledWith(
+        'https://collector.internal/logs',
+        expect.objectContaining({ keepalive: true, headers: expect.objectContaining({ Authorization: 'Bearer token' }) })
+      );
+      transport.close();
+    });
+
+    test('should use fetch keepalive with the configured method when it is not POST', () => {
+      const transport = new HttpTransport({ url: 'https://collector.internal/logs', method: 'PUT', flushInterval: 0 });
+      transport.log(mockLogEntry);
+      transport.flushOnUnload();
+
+      expect(sendBeacon).not.toHaveBeenCalled();
+      expect(fetchMock).toHaveBeenCalledWith(
+        'https://collector.internal/logs',
+        expect.objectContaining({ method: 'PUT', keepalive: true })
+      );
+    });
+
+    test('should keep entries buffered when the beacon is rejected', () => {
+      sendBeacon.mockReturnValue(false);
+      const transport = new HttpTransport({ url: 'https://collector.internal/logs', flushInterval: 0 });
+      transport.log(mockLogEntry);
+      transport.flushOnUnload();
+
+      expect(transport['buffer']).toHaveLength(1);
+    });
+
+    test('should fall back to a regular flush when unload delivery is disabled', () => {
+      const transport = new LokiTransport({ url: 'http://localhost:3100', flushInterval: 0, unloadDelivery: false });
+      const flushSpy = jest.spyOn(transport, 'flush');
+      transport.log(mockLogEntry);
+      transport.flushOnUnload();
+
+      expect(flushSpy).toHaveBeenCalled();
+      expect(sendBeacon).not.toHaveBeenCalled();
     });
   });
 });
\ No newline at end of file